@@ -0,0 +1,135 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { ActuatorType, ButtplugClientDevice, LinearCmd, RotateCmd, RotateSubcommand, ScalarSubcommand, VectorSubcommand } from "buttplug";
+
+export type ActuatorKind = "vibrate" | "rotate" | "oscillate" | "linear" | "scalar";
+export const actuatorKinds: ActuatorKind[] = ["vibrate", "rotate", "oscillate", "linear", "scalar"];
+
+export interface DeviceActuator {
+    kind: ActuatorKind;
+    /** Index of the feature on the device, as used by the buttplug messages */
+    index: number;
+    /** 1-based number of this actuator among the device's actuators of the same kind (e.g. the 2nd vibrator) */
+    motor: number;
+    actuatorType: ActuatorType;
+}
+
+export interface ActuatorSelection {
+    /** Actuator kinds to drive, all kinds if empty */
+    kinds?: ActuatorKind[];
+    /** 1-based motor numbers to drive, all motors if empty */
+    motors?: number[];
+}
+
+export interface DriveOptions {
+    clockwise: boolean;
+}
+
+// Strokers are slowest at the lowest intensity and fastest at full intensity
+const slowestStroke = 1500;
+const fastestStroke = 300;
+
+const strokers = new WeakMap<ButtplugClientDevice, { intensity: number; running: boolean; }>();
+
+function kindFromScalar(actuatorType: ActuatorType): ActuatorKind {
+    switch (actuatorType) {
+        case ActuatorType.Vibrate:
+            return "vibrate";
+        case ActuatorType.Oscillate:
+            return "oscillate";
+        default:
+            return "scalar";
+    }
+}
+
+export function parseActuatorKinds(list: string | undefined): ActuatorKind[] {
+    return list?.split(",").map(kind => kind.trim().toLowerCase()).filter((kind): kind is ActuatorKind => actuatorKinds.includes(kind as ActuatorKind)) ?? [];
+}
+
+export function validateActuatorKinds(list: string): true | string {
+    const invalid = list.split(",").map(kind => kind.trim().toLowerCase()).filter(kind => kind && !actuatorKinds.includes(kind as ActuatorKind));
+    if (invalid.length > 0) return `Unknown actuator types: ${invalid.join(", ")}. Expected any of: ${actuatorKinds.join(", ")}`;
+    return true;
+}
+
+export function getActuators(device: ButtplugClientDevice): DeviceActuator[] {
+    const { ScalarCmd = [], RotateCmd = [], LinearCmd = [] } = device.messageAttributes;
+    const actuators: DeviceActuator[] = [];
+    const motorCount: Partial<Record<ActuatorKind, number>> = {};
+
+    const add = (kind: ActuatorKind, index: number, actuatorType: ActuatorType) => {
+        motorCount[kind] = (motorCount[kind] ?? 0) + 1;
+        actuators.push({ kind, index, motor: motorCount[kind]!, actuatorType });
+    };
+
+    ScalarCmd.forEach(attribute => add(kindFromScalar(attribute.ActuatorType), attribute.Index, attribute.ActuatorType));
+    RotateCmd.forEach(attribute => add("rotate", attribute.Index, ActuatorType.Rotate));
+    LinearCmd.forEach(attribute => add("linear", attribute.Index, ActuatorType.Position));
+
+    return actuators;
+}
+
+export function selectActuators(device: ButtplugClientDevice, selection: ActuatorSelection): DeviceActuator[] {
+    return getActuators(device).filter(actuator =>
+        (!selection.kinds?.length || selection.kinds.includes(actuator.kind))
+        && (!selection.motors?.length || selection.motors.includes(actuator.motor))
+    );
+}
+
+export function describeActuators(device: ButtplugClientDevice): string {
+    const actuators = getActuators(device);
+    if (actuators.length === 0) return "None";
+    return actuators.map(actuator => `${actuator.kind} ${actuator.motor}`).join(", ");
+}
+
+async function runStroker(device: ButtplugClientDevice, actuators: DeviceActuator[]) {
+    const stroker = strokers.get(device)!;
+    let position = 1;
+
+    stroker.running = true;
+    try {
+        while (stroker.intensity > 0) {
+            const duration = Math.round(slowestStroke - (slowestStroke - fastestStroke) * stroker.intensity);
+            await device.sendExpectOk(new LinearCmd(actuators.map(actuator => new VectorSubcommand(actuator.index, position, duration)), device.index));
+            await new Promise(r => setTimeout(r, duration));
+            position = position === 1 ? 0 : 1;
+        }
+    } finally {
+        stroker.running = false;
+    }
+}
+
+/**
+ * Maps a single intensity (0 - 1) onto every selected actuator: scalar actuators use it directly,
+ * rotators use it as speed and strokers keep stroking, faster the higher the intensity is
+ */
+export async function driveActuators(device: ButtplugClientDevice, actuators: DeviceActuator[], intensity: number, options: DriveOptions) {
+    const scalars = actuators.filter(actuator => actuator.kind !== "rotate" && actuator.kind !== "linear");
+    const rotators = actuators.filter(actuator => actuator.kind === "rotate");
+    const linears = actuators.filter(actuator => actuator.kind === "linear");
+
+    if (scalars.length > 0)
+        await device.scalar(scalars.map(actuator => new ScalarSubcommand(actuator.index, intensity, actuator.actuatorType)));
+
+    if (rotators.length > 0)
+        await device.sendExpectOk(new RotateCmd(rotators.map(actuator => new RotateSubcommand(actuator.index, intensity, options.clockwise)), device.index));
+
+    if (linears.length > 0) {
+        const stroker = strokers.get(device) ?? { intensity: 0, running: false };
+        strokers.set(device, stroker);
+        stroker.intensity = intensity;
+
+        if (intensity > 0 && !stroker.running)
+            runStroker(device, linears).catch(error => console.error("Error while stroking:", error));
+    }
+}
+
+export async function stopActuators(device: ButtplugClientDevice) {
+    const stroker = strokers.get(device);
+    if (stroker) stroker.intensity = 0;
+    await device.stop();
+}
@@ -0,0 +1,134 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { makeRange } from "@components/PluginSettings/components";
+import { Button, Forms, React, Slider, useEffect, useReducer, useState } from "@webpack/common";
+import { ButtplugClientDevice } from "buttplug";
+
+import { connectAll, driveActuatorManually, getConnectionState, getDevices, getHeatOptions, getQueueState, getServerStates, handleDisconnection, isConnected, isEmergencyStopped, isScanning, pluginSettings, startScanning, stopAll, stopScanning } from ".";
+import { DeviceActuator, getActuators } from "./actuators";
+import { getDeviceConfig, getDeviceKey, getDeviceLabel } from "./devices";
+import { describeHealth, getDeviceHealth } from "./health";
+import { getHeat } from "./heat";
+
+// Nothing tells the panel when something changes, so it looks again every second
+const refreshRate = 1000;
+
+// Sliders fire for every step they move, so only the latest value is sent once the device answered the last one
+const pendingValues = new Map<string, number>();
+const sendingActuators = new Set<string>();
+
+async function sendManualValue(device: ButtplugClientDevice, actuator: DeviceActuator, intensity: number) {
+    const key = `${getDeviceKey(device)}:${actuator.index}`;
+    pendingValues.set(key, intensity);
+    if (sendingActuators.has(key)) return;
+
+    sendingActuators.add(key);
+    try {
+        while (pendingValues.has(key)) {
+            const value = pendingValues.get(key)!;
+            pendingValues.delete(key);
+            await driveActuatorManually(device, actuator, value);
+        }
+    } catch (error) {
+        console.error("Failed to drive actuator:", error);
+    } finally {
+        sendingActuators.delete(key);
+    }
+}
+
+function DeviceControls({ device }: { device: ButtplugClientDevice; }) {
+    const config = getDeviceConfig(device);
+    const status = `${describeHealth(getDeviceHealth(device))}${config.enabled ? "" : ", disabled"}`;
+
+    return (
+        <div style={{ marginBottom: 16 }}>
+            <Forms.FormTitle tag="h5">{getDeviceLabel(device)}</Forms.FormTitle>
+            <Forms.FormText>{status}</Forms.FormText>
+            {getActuators(device).map(actuator => (
+                <div key={actuator.index} style={{ marginTop: 8 }}>
+                    <Forms.FormText>{actuator.kind} {actuator.motor}</Forms.FormText>
+                    <Slider
+                        initialValue={0}
+                        minValue={0}
+                        maxValue={100}
+                        markers={makeRange(0, 100, 10)}
+                        stickToMarkers={false}
+                        disabled={!config.enabled || isEmergencyStopped()}
+                        onValueChange={(value: number) => sendManualValue(device, actuator, value / 100)}
+                        onValueRender={(value: number) => `${Math.round(value)}%`}
+                    />
+                </div>
+            ))}
+        </div>
+    );
+}
+
+export function ControlPanel() {
+    const [, refresh] = useReducer((count: number) => count + 1, 0);
+    // Changing this remounts the sliders, which puts them back to 0 after stopping everything
+    const [sliderKey, setSliderKey] = useState(0);
+
+    useEffect(() => {
+        const intervalId = setInterval(refresh, refreshRate);
+        return () => clearInterval(intervalId);
+    }, []);
+
+    const connectionState = getConnectionState();
+    const servers = getServerStates();
+    const connected = isConnected();
+    const devices = getDevices();
+    const queue = getQueueState();
+
+    const toggleConnection = async () => {
+        if (connectionState === "disconnected") await connectAll();
+        else await handleDisconnection();
+        refresh();
+    };
+
+    const toggleScanning = async () => {
+        if (isScanning()) await stopScanning();
+        else await startScanning(true, refresh);
+        refresh();
+    };
+
+    const stop = async () => {
+        pendingValues.clear();
+        await stopAll();
+        setSliderKey(key => key + 1);
+    };
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle tag="h3">Control panel</Forms.FormTitle>
+            <Forms.FormText>
+                Connection: {servers.length > 1 ? servers.map(({ name, state }) => `${name} ${state}`).join(", ") : connectionState}{isEmergencyStopped() ? " (emergency stopped, use /rearm to allow vibrations again)" : ""}
+            </Forms.FormText>
+            {pluginSettings.store.heatMode && <Forms.FormText>Heat: {Math.round(getHeat(getHeatOptions()) * 100)}%</Forms.FormText>}
+
+            <div style={{ display: "flex", gap: 8, margin: "8px 0 16px" }}>
+                <Button size={Button.Sizes.SMALL} onClick={toggleConnection}>
+                    {connectionState === "disconnected" ? "Connect" : "Disconnect"}
+                </Button>
+                <Button size={Button.Sizes.SMALL} disabled={!connected} onClick={toggleScanning}>
+                    {isScanning() ? "Stop scanning" : "Scan for devices"}
+                </Button>
+                <Button size={Button.Sizes.SMALL} color={Button.Colors.RED} onClick={stop}>
+                    Stop everything
+                </Button>
+            </div>
+
+            <Forms.FormTitle tag="h5">Devices</Forms.FormTitle>
+            {devices.length === 0
+                ? <Forms.FormText>{connected ? "No devices found yet, try scanning for them" : "Not connected to intiface"}</Forms.FormText>
+                : devices.map(device => <DeviceControls key={`${getDeviceKey(device)}-${sliderKey}`} device={device} />)}
+
+            <Forms.FormTitle tag="h5" style={{ marginTop: 16 }}>Queue</Forms.FormTitle>
+            <Forms.FormText>Playing: {queue.playing ?? "Nothing"}</Forms.FormText>
+            {queue.waiting.map((command, i) => <Forms.FormText key={i}>{i + 1}. {command}</Forms.FormText>)}
+        </Forms.FormSection>
+    );
+}
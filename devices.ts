@@ -0,0 +1,113 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as DataStore from "@api/DataStore";
+import { ButtplugClientDevice } from "buttplug";
+
+import { getDevices } from ".";
+
+export interface DeviceConfig {
+    enabled: boolean;
+    /** Intensity (0 - 100) that full strength is mapped to */
+    maxIntensity: number;
+    /** Lowest intensity (0 - 100) that is still sent, weaker vibrations are raised to this */
+    minIntensity: number;
+    nickname?: string;
+    /** Trigger words this device responds to, all triggers if empty */
+    triggers: string[];
+}
+
+const DEVICE_CONFIG_KEY = "Venplug_deviceConfigs";
+
+export const defaultDeviceConfig: DeviceConfig = { enabled: true, maxIntensity: 100, minIntensity: 0, triggers: [] };
+
+let deviceConfigs: Record<string, DeviceConfig> = {};
+// Devices of servers other than the main one, with the name of their connection profile
+const deviceServers = new WeakMap<ButtplugClientDevice, string>();
+
+export function setDeviceServer(device: ButtplugClientDevice, server: string) {
+    deviceServers.set(device, server);
+}
+
+/**
+ * Returns the connection profile a device comes from, undefined for the main server
+ */
+export function getDeviceServer(device: ButtplugClientDevice): string | undefined {
+    return deviceServers.get(device);
+}
+
+/**
+ * Devices are identified by the name and index the server gives them, which (unlike their
+ * position in the device list) stays the same when a device reconnects
+ */
+export function getDeviceKey(device: ButtplugClientDevice): string {
+    const server = getDeviceServer(device);
+    return `${server ? `${server}/` : ""}${device.name}#${device.index}`;
+}
+
+/**
+ * The ID to refer to a device with, its index on the main server and server:index on other servers
+ */
+export function getDeviceReference(device: ButtplugClientDevice): string {
+    const server = getDeviceServer(device);
+    return server ? `${server}:${device.index}` : String(device.index);
+}
+
+export async function loadDeviceConfigs() {
+    deviceConfigs = await DataStore.get<Record<string, DeviceConfig>>(DEVICE_CONFIG_KEY) ?? {};
+}
+
+export function getDeviceConfig(device: ButtplugClientDevice): DeviceConfig {
+    const key = getDeviceKey(device);
+    let config: DeviceConfig | undefined = deviceConfigs[key];
+
+    // Fall back to a device with the same name (on the same server) in case the server handed out a new index,
+    // unless that config belongs to an identical device that is connected right now
+    if (!config) {
+        const name = key.slice(0, key.lastIndexOf("#"));
+        const connectedKeys = new Set(getDevices().map(getDeviceKey));
+        config = Object.entries(deviceConfigs).find(([other]) => other.slice(0, other.lastIndexOf("#")) === name && !connectedKeys.has(other))?.[1];
+    }
+
+    return { ...defaultDeviceConfig, ...config };
+}
+
+export async function setDeviceConfig(device: ButtplugClientDevice, config: Partial<DeviceConfig>) {
+    deviceConfigs[getDeviceKey(device)] = { ...getDeviceConfig(device), ...config };
+    await DataStore.set(DEVICE_CONFIG_KEY, deviceConfigs);
+}
+
+export function getDeviceLabel(device: ButtplugClientDevice): string {
+    const { nickname } = getDeviceConfig(device);
+    const server = getDeviceServer(device);
+    return `${server ? `${server}/` : ""}${nickname ? `${nickname} (${device.name})` : device.name}`;
+}
+
+/**
+ * Finds a device by its nickname, its reference (server index) or its key
+ */
+export function findDevice(devices: ButtplugClientDevice[], reference: string | number): ButtplugClientDevice | undefined {
+    const text = String(reference).trim().toLowerCase();
+    return devices.find(device => getDeviceConfig(device).nickname?.toLowerCase() === text)
+        ?? devices.find(device => getDeviceReference(device).toLowerCase() === text)
+        ?? devices.find(device => getDeviceKey(device).toLowerCase() === text);
+}
+
+export function respondsToTriggers(config: DeviceConfig, triggers: string[] | undefined): boolean {
+    if (!config.enabled) return false;
+    if (config.triggers.length === 0 || !triggers) return true;
+    return triggers.some(trigger => config.triggers.includes(trigger.toLowerCase()));
+}
+
+/**
+ * Maps an intensity (0 - 1) into the device's own min - max range, 0 still stops the device
+ */
+export function applyDeviceLimits(config: DeviceConfig, intensity: number): number {
+    if (intensity <= 0) return 0;
+    const min = config.minIntensity / 100;
+    const max = Math.max(config.maxIntensity / 100, min);
+    return min + (max - min) * intensity;
+}
@@ -0,0 +1,368 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { sendMessage } from "@utils/discord";
+import { ButtplugClientDevice } from "buttplug";
+
+import { addToVibrateQueue, checkLimits, DiscordMessage, driveDevices, formatQueue, formatTimers, getConnectionState, getCurrentPauseReason, getDevices, getHeatOptions, getMessageActivity, getScheduleError, getServerStates, isConnected, isEmergencyStopped, pluginSettings, recordActivity, scheduleCommand, startDirectVibrateTimeout, stopAll } from ".";
+import { describeActuators } from "./actuators";
+import { findDevice, getDeviceConfig, getDeviceKey, getDeviceLabel, getDeviceReference } from "./devices";
+import { Grant, GrantTier, hasTier } from "./grants";
+import { formatHeat, getHeat } from "./heat";
+import { getPatternNames } from "./patterns";
+import { QueuePriority } from "./queue";
+import { getCost } from "./ratelimit";
+import { cancelTimer, cancelTimers, getTimers, parseRepeatInterval, parseWhen } from "./timers";
+
+export interface DirectControlContext {
+    message: DiscordMessage;
+    args: string[];
+    prefix: string;
+    grant: Grant;
+    /** Devices of all connected servers */
+    devices: ButtplugClientDevice[];
+    reply(content: string): void;
+}
+
+export interface DirectControlCommand {
+    name: string;
+    aliases?: string[];
+    /** Arguments, shown after the command name in help and errors */
+    usage?: string;
+    description: string;
+    /** Lowest grant tier that can use the command (Default: vibrate) */
+    tier?: GrantTier;
+    /** If false, the command also works while not connected to intiface (Default: true) */
+    requiresConnection?: boolean;
+    /** Returns false if nothing was done (e.g. when throttled), so it isn't recorded in the history */
+    execute(ctx: DirectControlContext): Promise<boolean | void> | boolean | void;
+}
+
+/**
+ * Thrown for invalid arguments, the message is sent back together with the command's usage
+ */
+export class CommandError extends Error { }
+
+const defaultPatternIntensity = 50;
+const defaultPatternDuration = 5000;
+// Others can't fill up the schedule with more than this many at once
+const maxTimersPerUser = 5;
+// Vibrate commands keep going until the next command, without a maximum duration they are charged for this long
+const unlimitedVibrateDuration = 60000;
+
+function parseIntensity(ctx: DirectControlContext, arg: string | undefined): number {
+    const intensity = Number(arg);
+    if (!arg || isNaN(intensity) || intensity < 0) throw new CommandError("Invalid vibration strength");
+    return Math.min(intensity, ctx.grant.maxIntensity ?? 100, 100);
+}
+
+function parseDuration(arg: string | undefined): number {
+    const duration = Number(arg);
+    if (!arg || isNaN(duration) || duration < 0) throw new CommandError("Invalid duration time");
+
+    const { maxCommandDuration } = pluginSettings.store;
+    if (maxCommandDuration > 0 && duration > maxCommandDuration * 1000) throw new CommandError(`The duration can't be longer than ${maxCommandDuration} seconds`);
+    return duration;
+}
+
+function resolveDevice(ctx: DirectControlContext, arg: string): ButtplugClientDevice {
+    const device = findDevice(ctx.devices, arg);
+    if (!device) throw new CommandError(`Unknown device "${arg}", use ${ctx.prefix}devices to see the IDs and nicknames`);
+    return device;
+}
+
+/**
+ * Splits off the optional device argument in front of `required` arguments
+ */
+function splitDeviceArgument(ctx: DirectControlContext, required: number): [ButtplugClientDevice | undefined, string[]] {
+    if (ctx.args.length === required) return [undefined, ctx.args];
+    if (ctx.args.length === required + 1) return [resolveDevice(ctx, ctx.args[0]), ctx.args.slice(1)];
+    throw new CommandError("Incorrect arguments provided");
+}
+
+/**
+ * Splits off the timing in front of the other arguments: a delay or time, optionally followed by "every <interval>"
+ */
+function splitTiming(args: string[]): [number, number | undefined, string[]] {
+    try {
+        const [when, ...rest] = args;
+        if (!when) throw new Error("No time provided");
+        const at = when.toLowerCase() === "every" ? undefined : parseWhen(when);
+        const remaining = at === undefined ? args : rest;
+        if (remaining[0]?.toLowerCase() !== "every") return [at!, undefined, remaining];
+
+        const every = parseRepeatInterval(remaining[1] ?? "");
+        return [at ?? Date.now() + every, every, remaining.slice(2)];
+    } catch (error) {
+        throw new CommandError((error as Error).message);
+    }
+}
+
+function isOwnMessage(ctx: DirectControlContext) {
+    return ctx.message.author.id === Vencord.Webpack.Common.UserStore.getCurrentUser().id;
+}
+
+function scaleIntensity(intensity: number) {
+    return intensity * (pluginSettings.store.maxVibrationIntensity / 100) / 100;
+}
+
+export const directControlCommands: DirectControlCommand[] = [
+    {
+        name: "help",
+        aliases: ["h", "commands"],
+        usage: "<command?>",
+        description: "Shows what you can do, or how to use a command",
+        tier: "triggers",
+        requiresConnection: false,
+        execute(ctx) {
+            if (ctx.args[0]) {
+                const command = findCommand(ctx.args[0]);
+                if (!command) throw new CommandError(`Unknown command "${ctx.args[0]}"`);
+
+                const aliases = command.aliases?.length ? `\n**Aliases:** ${command.aliases.join(", ")}` : "";
+                return ctx.reply(`**${ctx.prefix}${command.name}** ${command.usage ?? ""}\n${command.description}${aliases}`);
+            }
+
+            const lines = directControlCommands.filter(command => canUse(ctx.grant, command)).map(command => `**${ctx.prefix}${command.name}** ${command.usage ?? ""} - ${command.description}`);
+            ctx.reply(`**Available commands**\n${lines.join("\n")}\n\nArguments ending in ? are optional, devices can be an ID or a nickname`);
+        }
+    },
+    {
+        name: "vibrate",
+        aliases: ["v"],
+        usage: "<device?> <amount>",
+        description: "Vibrates until you send another command",
+        execute(ctx) {
+            const [device, [amount]] = splitDeviceArgument(ctx, 1);
+            const strength = scaleIntensity(parseIntensity(ctx, amount));
+            const { maxCommandDuration } = pluginSettings.store;
+            if (!checkLimits("command", ctx.message, getCost(strength, maxCommandDuration > 0 ? maxCommandDuration * 1000 : unlimitedVibrateDuration), true)) return false;
+
+            startDirectVibrateTimeout();
+            return driveDevices(device ? [device] : ctx.devices, strength, {});
+        }
+    },
+    {
+        name: "vd",
+        aliases: ["vibrationDuration", "durationVibration"],
+        usage: "<device?> <amount> <timeInMilliseconds>",
+        description: "Vibrates for a while",
+        execute(ctx) {
+            const [device, [amount, time]] = splitDeviceArgument(ctx, 2);
+            const strength = scaleIntensity(parseIntensity(ctx, amount));
+            const duration = parseDuration(time);
+            if (!checkLimits("command", ctx.message, getCost(strength, duration), true)) return false;
+
+            return addToVibrateQueue({
+                strength,
+                duration,
+                devices: device && [getDeviceKey(device)],
+                priority: QueuePriority.DirectControl,
+                source: ctx.message.author.username
+            });
+        }
+    },
+    {
+        name: "pattern",
+        aliases: ["p"],
+        usage: "<device?> <name> <amount?> <timeInMilliseconds?>",
+        description: `Plays a pattern (Default: ${defaultPatternIntensity}% for ${defaultPatternDuration / 1000} seconds)`,
+        tier: "full",
+        execute(ctx) {
+            const patternNames = getPatternNames(pluginSettings.store.customPatterns).map(name => name.toLowerCase());
+            const [first, ...rest] = ctx.args;
+            if (!first) throw new CommandError("No pattern provided");
+
+            const device = patternNames.includes(first) ? undefined : resolveDevice(ctx, first);
+            const [name, amount, time] = device ? rest : ctx.args;
+            if (!name || !patternNames.includes(name)) throw new CommandError(`Unknown pattern, available patterns: ${patternNames.join(", ")}`);
+
+            const strength = scaleIntensity(amount ? parseIntensity(ctx, amount) : Math.min(defaultPatternIntensity, ctx.grant.maxIntensity ?? 100));
+            const duration = time ? parseDuration(time) : defaultPatternDuration;
+            if (!checkLimits("command", ctx.message, getCost(strength, duration), true)) return false;
+
+            // Command arguments are lowercased, custom patterns may not be
+            const pattern = getPatternNames(pluginSettings.store.customPatterns).find(patternName => patternName.toLowerCase() === name);
+            return addToVibrateQueue({
+                strength,
+                duration,
+                pattern,
+                devices: device && [getDeviceKey(device)],
+                priority: QueuePriority.DirectControl,
+                source: ctx.message.author.username
+            });
+        }
+    },
+    {
+        name: "schedule",
+        aliases: ["later"],
+        usage: "<when> <amount> <timeInMilliseconds> <pattern?>",
+        description: "Vibrates later, <when> is a delay (e.g. 10m) or a time (e.g. 22:30), optionally followed by every <interval> (e.g. 22:30 every 1d or every 30m) to repeat it",
+        requiresConnection: false,
+        execute(ctx) {
+            const [at, every, [amount, time, name]] = splitTiming(ctx.args);
+            const strength = scaleIntensity(parseIntensity(ctx, amount));
+            const duration = parseDuration(time);
+
+            const pattern = name && getPatternNames(pluginSettings.store.customPatterns).find(patternName => patternName.toLowerCase() === name);
+            if (name && !pattern) throw new CommandError(`Unknown pattern, available patterns: ${getPatternNames(pluginSettings.store.customPatterns).join(", ")}`);
+            if (pattern && !hasTier(ctx.grant, "full")) throw new CommandError("You aren't allowed to schedule patterns");
+
+            if (!isOwnMessage(ctx) && getTimers().filter(timer => timer.userId === ctx.message.author.id).length >= maxTimersPerUser) {
+                ctx.reply(`You can't have more than ${maxTimersPerUser} things scheduled, use ${ctx.prefix}unschedule to cancel one`);
+                return false;
+            }
+
+            const timer = scheduleCommand({
+                command: { strength, duration, pattern, priority: QueuePriority.DirectControl, source: ctx.message.author.username },
+                at,
+                every,
+                userId: ctx.message.author.id,
+            }, ctx.message);
+            ctx.reply(`Scheduled #${timer.id} <t:${Math.floor(timer.at / 1000)}:R>, use ${ctx.prefix}unschedule ${timer.id} to cancel it`);
+        }
+    },
+    {
+        name: "schedules",
+        aliases: ["scheduled"],
+        description: "Shows what is scheduled",
+        tier: "triggers",
+        requiresConnection: false,
+        execute(ctx) {
+            ctx.reply(formatTimers());
+        }
+    },
+    {
+        name: "unschedule",
+        usage: "<number|all>",
+        description: "Cancels something you scheduled, or all of it",
+        requiresConnection: false,
+        execute(ctx) {
+            const arg = ctx.args[0]?.replace(/^#/, "");
+            if (!arg) throw new CommandError("No schedule number provided");
+
+            // Only the owner of the account can cancel what others scheduled
+            const userId = isOwnMessage(ctx) ? undefined : ctx.message.author.id;
+            if (arg === "all") return ctx.reply(`Cancelled ${cancelTimers(userId)} scheduled vibration(s)`);
+
+            const timer = getTimers().find(timer => timer.id === Number(arg) && (!userId || timer.userId === userId));
+            if (!timer) throw new CommandError(`You have nothing scheduled as #${arg}, use ${ctx.prefix}schedules to see the numbers`);
+
+            cancelTimer(timer.id);
+            ctx.reply(`Cancelled #${timer.id}`);
+        }
+    },
+    {
+        name: "stop",
+        description: "Stops all devices and clears the queue",
+        async execute(ctx) {
+            await stopAll();
+            ctx.reply("Stopped all devices");
+        }
+    },
+    {
+        name: "queue",
+        aliases: ["q"],
+        description: "Shows what is playing and waiting",
+        tier: "triggers",
+        requiresConnection: false,
+        execute(ctx) {
+            ctx.reply(formatQueue());
+        }
+    },
+    {
+        name: "devices",
+        aliases: ["d"],
+        description: "Lists the connected devices",
+        tier: "triggers",
+        async execute(ctx) {
+            if (ctx.devices.length === 0) return ctx.reply("No devices connected");
+
+            const deviceInfo: string[] = [];
+            for (const device of ctx.devices) {
+                deviceInfo.push(`**Name:** ${getDeviceLabel(device)}, **ID:** ${getDeviceReference(device)}, **Actuators:** ${describeActuators(device)}, **Battery:** ${device.hasBattery ? `${Math.round(await device.battery() * 100)}%` : "No battery"}`);
+            }
+
+            ctx.reply(`**Connected devices:** \n${deviceInfo.join("\n")}`);
+        }
+    },
+    {
+        name: "battery",
+        aliases: ["b"],
+        usage: "<device?>",
+        description: "Shows the battery level of the devices",
+        tier: "triggers",
+        async execute(ctx) {
+            const devices = ctx.args[0] ? [resolveDevice(ctx, ctx.args[0])] : ctx.devices;
+            const lines: string[] = [];
+            for (const device of devices) {
+                lines.push(`**${getDeviceLabel(device)}:** ${device.hasBattery ? `${Math.round(await device.battery() * 100)}%` : "No battery"}`);
+            }
+
+            ctx.reply(lines.length ? lines.join("\n") : "No devices connected");
+        }
+    },
+    {
+        name: "status",
+        aliases: ["s"],
+        description: "Shows whether I'm connected and what is going on",
+        tier: "triggers",
+        requiresConnection: false,
+        execute(ctx) {
+            const enabledDevices = getDevices().filter(device => getDeviceConfig(device).enabled);
+            const servers = getServerStates();
+            const lines = [
+                `**Connection:** ${servers.length > 1 ? servers.map(({ name, state }) => `${name} ${state}`).join(", ") : getConnectionState()}`,
+                `**Devices:** ${enabledDevices.length ? enabledDevices.map(getDeviceLabel).join(", ") : "None"}`,
+                `**Emergency stopped:** ${isEmergencyStopped() ? "Yes" : "No"}`,
+                `**Paused:** ${getCurrentPauseReason() ?? "No"}`,
+                formatQueue(),
+            ];
+            if (pluginSettings.store.heatMode) lines.splice(4, 0, `**Heat:** ${formatHeat(getHeat(getHeatOptions()))}`);
+            const scheduleError = getScheduleError();
+            if (scheduleError) lines.splice(4, 0, `**Active schedule:** ignored because it is invalid (${scheduleError})`);
+
+            ctx.reply(lines.join("\n"));
+        }
+    },
+];
+
+function canUse(grant: Grant, command: DirectControlCommand) {
+    return hasTier(grant, command.tier ?? "vibrate");
+}
+
+export function findCommand(name: string): DirectControlCommand | undefined {
+    const lowerName = name.toLowerCase();
+    return directControlCommands.find(command => command.name.toLowerCase() === lowerName || command.aliases?.some(alias => alias.toLowerCase() === lowerName));
+}
+
+export async function runDirectControlCommand(message: DiscordMessage, text: string, prefix: string, grant: Grant) {
+    const [name, ...args] = text.trim().split(/\s+/);
+    const reply = (content: string) => sendMessage(message.channel_id, { content });
+
+    const command = findCommand(name ?? "");
+    if (!command) return reply(`Unknown command "${name}", use ${prefix}help to see what you can do`);
+    if (!canUse(grant, command)) return reply(`You aren't allowed to use ${prefix}${command.name}, use ${prefix}help to see what you can do`);
+
+    // Informational commands and stopping keep working while paused
+    const pauseReason = (command.tier ?? "vibrate") !== "triggers" && command.name !== "stop" && message.author.id !== Vencord.Webpack.Common.UserStore.getCurrentUser().id && getCurrentPauseReason();
+    if (pauseReason) return reply(`Remote control is paused right now (${pauseReason})`);
+
+    if (command.requiresConnection !== false && !isConnected())
+        return reply("My client isn't connected right now");
+
+    try {
+        const ran = await command.execute({ message, args, prefix, grant, devices: getDevices(), reply });
+        if (ran !== false) recordActivity({ kind: "command", description: `${prefix}${[command.name, ...args].join(" ")}`, ...getMessageActivity(message) });
+    } catch (error) {
+        if (error instanceof CommandError)
+            return reply(`${error.message}\n**Usage:** ${prefix}${command.name} ${command.usage ?? ""}`);
+
+        // Messages are handled without waiting for them, so nothing else would catch this
+        console.error(`Failed to run ${prefix}${command.name}:`, error);
+        reply(`Something went wrong running ${prefix}${command.name}, try again later`);
+    }
+}
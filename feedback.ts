@@ -0,0 +1,58 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export type FeedbackMode = "none" | "reaction" | "reply";
+
+export interface FeedbackValues {
+    /** Username of the sender */
+    user: string;
+    /** Intensity from 0 to 100 */
+    strength: number;
+    /** Duration in seconds */
+    duration: number;
+    devices: string[];
+    triggers: string[];
+}
+
+const placeholders = ["user", "strength", "duration", "devices", "triggers"];
+const lastFeedback = new Map<string, number>();
+
+/**
+ * Fills in the {user}, {strength}, {duration}, {devices} and {triggers} placeholders of a template
+ */
+export function formatFeedback(template: string, values: FeedbackValues): string {
+    const filled: Record<string, string> = {
+        user: values.user,
+        strength: String(Math.round(values.strength)),
+        duration: values.duration.toFixed(1),
+        devices: values.devices.length ? values.devices.join(", ") : "no devices",
+        triggers: values.triggers.join(", "),
+    };
+
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => filled[name] ?? placeholder);
+}
+
+export function validateFeedbackTemplate(template: string): true | string {
+    if (!template.trim()) return "The template can't be empty";
+
+    const unknown = [...template.matchAll(/\{(\w+)\}/g)].map(match => match[1]).find(name => !placeholders.includes(name));
+    return unknown ? `Unknown placeholder {${unknown}} (expected any of: ${placeholders.map(name => `{${name}}`).join(", ")})` : true;
+}
+
+/**
+ * Returns true if feedback may be sent in a channel, and starts its cooldown if so
+ */
+export function shouldSendFeedback(channelId: string, cooldown: number): boolean {
+    const now = Date.now();
+    if (now - (lastFeedback.get(channelId) ?? 0) < cooldown) return false;
+
+    lastFeedback.set(channelId, now);
+    return true;
+}
+
+export function resetFeedback() {
+    lastFeedback.clear();
+}
@@ -0,0 +1,104 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as DataStore from "@api/DataStore";
+
+/**
+ * - triggers: their messages always count as triggers, but they can only use informational commands
+ * - vibrate: they can also vibrate and stop, up to their maximum intensity
+ * - full: everything, including patterns
+ */
+export type GrantTier = "triggers" | "vibrate" | "full";
+export const grantTiers: GrantTier[] = ["triggers", "vibrate", "full"];
+
+export interface Grant {
+    userId: string;
+    tier: GrantTier;
+    /** Highest intensity (0 - 100) they can use, only for the vibrate tier */
+    maxIntensity?: number;
+    /** Only valid in this channel, everywhere if not set */
+    channelId?: string;
+    /** Timestamp the grant lapses at, never if not set */
+    expiresAt?: number;
+    /** Grants from the direct control users setting can't be revoked or expire */
+    permanent?: boolean;
+}
+
+const GRANTS_KEY = "Venplug_grants";
+
+let grants: Grant[] = [];
+
+export async function loadGrants() {
+    grants = await DataStore.get<Grant[]>(GRANTS_KEY) ?? [];
+}
+
+function saveGrants() {
+    return DataStore.set(GRANTS_KEY, grants);
+}
+
+export function hasTier(grant: Grant, tier: GrantTier) {
+    return grantTiers.indexOf(grant.tier) >= grantTiers.indexOf(tier);
+}
+
+/**
+ * Parses the direct control users setting, accepting both spaces and commas between the IDs
+ */
+export function parseLegacyUsers(list: string | undefined): Grant[] {
+    return list?.split(/[\s,]+/).filter(Boolean).map(userId => ({ userId, tier: "full", permanent: true })) ?? [];
+}
+
+export function getGrants(legacyUsers: string | undefined): Grant[] {
+    const now = Date.now();
+    return [...parseLegacyUsers(legacyUsers), ...grants.filter(grant => !grant.expiresAt || grant.expiresAt > now)];
+}
+
+/**
+ * Finds the best grant a user has in a channel
+ */
+export function getActiveGrant(userId: string, channelId: string, legacyUsers: string | undefined): Grant | undefined {
+    return getGrants(legacyUsers)
+        .filter(grant => grant.userId === userId && (!grant.channelId || grant.channelId === channelId))
+        .sort((a, b) => grantTiers.indexOf(b.tier) - grantTiers.indexOf(a.tier))[0];
+}
+
+/**
+ * Adds a grant, replacing any earlier grant of the user for the same channel scope
+ */
+export async function addGrant(grant: Grant) {
+    grants = grants.filter(other => other.userId !== grant.userId || other.channelId !== grant.channelId);
+    grants.push(grant);
+    await saveGrants();
+}
+
+/**
+ * Removes all grants of a user, returns how many were removed
+ */
+export async function revokeGrants(userId: string): Promise<number> {
+    const count = grants.length;
+    grants = grants.filter(grant => grant.userId !== userId);
+    await saveGrants();
+    return count - grants.length;
+}
+
+/**
+ * Removes grants that lapsed and returns them
+ */
+export async function removeExpiredGrants(): Promise<Grant[]> {
+    const now = Date.now();
+    const expired = grants.filter(grant => grant.expiresAt && grant.expiresAt <= now);
+    if (expired.length === 0) return [];
+
+    grants = grants.filter(grant => !expired.includes(grant));
+    await saveGrants();
+    return expired;
+}
+
+export function describeGrant(grant: Grant): string {
+    const tier = grant.tier === "vibrate" && grant.maxIntensity !== undefined ? `vibrate up to ${grant.maxIntensity}%` : grant.tier;
+    const scope = grant.channelId ? ` in <#${grant.channelId}>` : "";
+    const expiry = grant.permanent ? " (from settings)" : grant.expiresAt ? `, expires <t:${Math.floor(grant.expiresAt / 1000)}:R>` : ", never expires";
+    return `<@${grant.userId}>: ${tier}${scope}${expiry}`;
+}
@@ -0,0 +1,89 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { ButtplugClientDevice } from "buttplug";
+
+import { getDeviceKey } from "./devices";
+
+export type BatteryLevel = "ok" | "warning" | "critical";
+
+export interface BatteryThresholds {
+    /** Battery (0 - 1) at or below which the device is low */
+    warning: number;
+    /** Battery (0 - 1) at or below which the device is critically low */
+    critical: number;
+}
+
+export interface DeviceHealth {
+    /** Last battery reading (0 - 1), undefined if the device has no battery or wasn't read yet */
+    battery?: number;
+    batteryLevel: BatteryLevel;
+    /** Failed commands since the device was added */
+    errors: number;
+    /** Failed commands since the last one that worked */
+    consecutiveErrors: number;
+    lastError?: string;
+    lastErrorAt?: number;
+}
+
+const severity: Record<BatteryLevel, number> = { ok: 0, warning: 1, critical: 2 };
+// A battery has to charge this far past a threshold before it can warn again, so one hovering around it doesn't warn over and over
+const rearmMargin = 0.05;
+
+const health = new Map<string, DeviceHealth>();
+
+export function getDeviceHealth(device: ButtplugClientDevice): DeviceHealth {
+    const key = getDeviceKey(device);
+    let entry = health.get(key);
+    if (!entry) health.set(key, entry = { batteryLevel: "ok", errors: 0, consecutiveErrors: 0 });
+    return entry;
+}
+
+/**
+ * Stores a battery reading, returns the new level if it got worse (to warn about it) or undefined if it didn't
+ */
+export function updateBattery(device: ButtplugClientDevice, battery: number, thresholds: BatteryThresholds): BatteryLevel | undefined {
+    const entry = getDeviceHealth(device);
+    const previous = entry.batteryLevel;
+
+    let level: BatteryLevel = battery <= thresholds.critical ? "critical" : battery <= thresholds.warning ? "warning" : "ok";
+    if (severity[level] < severity[previous] && battery < (previous === "critical" ? thresholds.critical : thresholds.warning) + rearmMargin)
+        level = previous;
+
+    entry.battery = battery;
+    entry.batteryLevel = level;
+    return severity[level] > severity[previous] ? level : undefined;
+}
+
+/**
+ * Counts a failed command, returns how many failed in a row
+ */
+export function recordDeviceError(device: ButtplugClientDevice, error: unknown): number {
+    const entry = getDeviceHealth(device);
+    entry.errors++;
+    entry.consecutiveErrors++;
+    entry.lastError = error instanceof Error ? error.message : String(error);
+    entry.lastErrorAt = Date.now();
+    return entry.consecutiveErrors;
+}
+
+export function recordDeviceSuccess(device: ButtplugClientDevice) {
+    getDeviceHealth(device).consecutiveErrors = 0;
+}
+
+export function resetHealth() {
+    health.clear();
+}
+
+export function formatBattery(battery: number): string {
+    return `${Math.round(battery * 100)}%`;
+}
+
+export function describeHealth(entry: DeviceHealth): string {
+    const battery = entry.battery === undefined ? "No battery" : `${formatBattery(entry.battery)}${entry.batteryLevel === "ok" ? "" : ` (${entry.batteryLevel})`}`;
+    if (entry.errors === 0) return battery;
+    return `${battery}, ${entry.errors} failed command(s), last: ${entry.lastError}`;
+}
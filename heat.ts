@@ -0,0 +1,54 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export interface HeatOptions {
+    /** How much of full intensity (0 - 1) the level loses every second */
+    decayPerSecond: number;
+    /** Highest level (0 - 1) it can build up to */
+    cap: number;
+}
+
+// Every device has its own level, since devices can be limited to certain triggers.
+// Levels are only decayed when they are read, so nothing has to run while they are cold
+const levels = new Map<string, { level: number; updatedAt: number; }>();
+
+function decay(key: string, options: HeatOptions): number {
+    const entry = levels.get(key);
+    if (!entry) return 0;
+
+    const now = Date.now();
+    entry.level = Math.min(Math.max(entry.level - options.decayPerSecond * (now - entry.updatedAt) / 1000, 0), options.cap);
+    entry.updatedAt = now;
+    if (entry.level <= 0) levels.delete(key);
+    return entry.level;
+}
+
+/**
+ * Returns the current level (0 - 1) of a device, or the highest level of all devices if no key is given
+ */
+export function getHeat(options: HeatOptions, deviceKey?: string): number {
+    if (deviceKey !== undefined) return decay(deviceKey, options);
+    return Math.max(0, ...[...levels.keys()].map(key => decay(key, options)));
+}
+
+/**
+ * Adds to the level of the devices (by their key) that respond to a trigger
+ */
+export function addHeat(amount: number, options: HeatOptions, deviceKeys: string[]) {
+    for (const key of deviceKeys) {
+        const level = Math.min(decay(key, options) + amount, options.cap);
+        levels.set(key, { level, updatedAt: Date.now() });
+    }
+}
+
+export function resetHeat() {
+    levels.clear();
+}
+
+export function formatHeat(heat: number, width = 20): string {
+    const filled = Math.round(heat * width);
+    return `\`${"\u2588".repeat(filled)}${"\u2591".repeat(width - filled)}\` ${Math.round(heat * 100)}%`;
+}
@@ -0,0 +1,112 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as DataStore from "@api/DataStore";
+
+export type ActivityKind = "trigger" | "command" | "connection" | "device" | "emergencyStop" | "pause";
+export const activityKinds: ActivityKind[] = ["trigger", "command", "connection", "device", "emergencyStop", "pause"];
+
+export interface ActivityEntry {
+    time: number;
+    kind: ActivityKind;
+    description: string;
+    userId?: string;
+    username?: string;
+    channelId?: string;
+    guildId?: string;
+    /** Intensity (0 - 1) of what was queued or run */
+    strength?: number;
+    /** Duration in ms of what was queued or run */
+    duration?: number;
+}
+
+export interface ActivityFilter {
+    kinds?: ActivityKind[];
+    userId?: string;
+    channelId?: string;
+    since?: number;
+    until?: number;
+}
+
+const HISTORY_KEY = "Venplug_history";
+const maxEntries = 5000;
+// Saving is delayed so a burst of triggers only writes once
+const saveDelay = 5000;
+
+let history: ActivityEntry[] = [];
+let saveTimeout: NodeJS.Timeout | null = null;
+
+export async function loadHistory() {
+    history = await DataStore.get<ActivityEntry[]>(HISTORY_KEY) ?? [];
+}
+
+export function saveHistory() {
+    if (saveTimeout) clearTimeout(saveTimeout);
+    saveTimeout = null;
+    return DataStore.set(HISTORY_KEY, history);
+}
+
+/**
+ * Adds an entry and drops entries older than the retention (in ms), a retention of 0 turns the log off
+ */
+export function logActivity(entry: Omit<ActivityEntry, "time">, retention: number) {
+    if (retention <= 0) return;
+
+    const now = Date.now();
+    history = history.filter(old => now - old.time < retention);
+    history.push({ time: now, ...entry });
+    if (history.length > maxEntries) history.splice(0, history.length - maxEntries);
+
+    saveTimeout ??= setTimeout(saveHistory, saveDelay);
+}
+
+export function getHistory(filter: ActivityFilter): ActivityEntry[] {
+    return history.filter(entry =>
+        (!filter.kinds?.length || filter.kinds.includes(entry.kind))
+        && (!filter.userId || entry.userId === filter.userId)
+        && (!filter.channelId || entry.channelId === filter.channelId)
+        && (filter.since === undefined || entry.time >= filter.since)
+        && (filter.until === undefined || entry.time <= filter.until)
+    );
+}
+
+export async function clearHistory() {
+    history = [];
+    await saveHistory();
+}
+
+/**
+ * Parses a point in time, either relative like "30m", "2h" or "7d" (that long ago) or anything Date can parse
+ */
+export function parseTime(text: string, now = Date.now()): number | undefined {
+    const relative = text.trim().match(/^(\d+(?:\.\d+)?)\s*(s|m|h|d|w)$/i);
+    if (relative) {
+        const units: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000, w: 604800000 };
+        return now - Number(relative[1]) * units[relative[2].toLowerCase()];
+    }
+
+    const time = Date.parse(text);
+    return isNaN(time) ? undefined : time;
+}
+
+export function formatActivity(entry: ActivityEntry): string {
+    const user = entry.userId ? ` by <@${entry.userId}>` : "";
+    const channel = entry.channelId ? ` in <#${entry.channelId}>` : "";
+    return `<t:${Math.floor(entry.time / 1000)}:f> **${entry.kind}**${user}${channel}: ${entry.description}`;
+}
+
+function escapeCsv(value: unknown): string {
+    const text = value === undefined ? "" : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function exportHistory(entries: ActivityEntry[], format: "json" | "csv"): string {
+    if (format === "json") return JSON.stringify(entries, null, 4);
+
+    const columns: (keyof ActivityEntry)[] = ["time", "kind", "description", "userId", "username", "channelId", "guildId", "strength", "duration"];
+    const rows = entries.map(entry => columns.map(column => escapeCsv(column === "time" ? new Date(entry.time).toISOString() : entry[column])).join(","));
+    return [columns.join(","), ...rows].join("\n");
+}
@@ -12,11 +12,34 @@ import { definePluginSettings } from "@api/Settings";
 import { makeRange } from "@components/PluginSettings/components";
 import { getCurrentChannel, getCurrentGuild, sendMessage } from "@utils/discord";
 import definePlugin, { OptionType } from "@utils/types";
-import { FluxDispatcher } from "@webpack/common";
+import { chooseFile, saveFile } from "@utils/web";
+import { Constants, FluxDispatcher, RestAPI } from "@webpack/common";
 import { ButtplugBrowserWebsocketClientConnector, ButtplugClient, ButtplugClientDevice, ButtplugDeviceError } from "buttplug";
 import { Message } from "discord-types/general";
 import type { PartialDeep } from "type-fest";
 
+import { ActuatorSelection, describeActuators, DeviceActuator, driveActuators, getActuators, parseActuatorKinds, selectActuators, stopActuators, validateActuatorKinds } from "./actuators";
+import { ControlPanel } from "./controlPanel";
+import { applyDeviceLimits, findDevice, getDeviceConfig, getDeviceKey, getDeviceLabel, getDeviceReference, getDeviceServer, loadDeviceConfigs, respondsToTriggers, setDeviceConfig, setDeviceServer } from "./devices";
+import { runDirectControlCommand } from "./directControl";
+import { FeedbackMode, formatFeedback, resetFeedback, shouldSendFeedback, validateFeedbackTemplate } from "./feedback";
+import { addGrant, describeGrant, getActiveGrant, getGrants, Grant, GrantTier, hasTier, loadGrants, removeExpiredGrants, revokeGrants } from "./grants";
+import { BatteryThresholds, describeHealth, formatBattery, getDeviceHealth, recordDeviceError, recordDeviceSuccess, resetHealth, updateBattery } from "./health";
+import { addHeat, formatHeat, getHeat, HeatOptions, resetHeat } from "./heat";
+import { ActivityEntry, ActivityKind, activityKinds, clearHistory, exportHistory, formatActivity, getHistory, loadHistory, logActivity, parseTime, saveHistory } from "./history";
+import { countMatches, MatchMode, MatchOptions, normalizeText, splitWordList } from "./matcher";
+import { buildPattern, getPatternNames, Keyframe, validateCustomPatterns } from "./patterns";
+import { applyProfile, deleteProfile, exportProfiles, findProfile, getActiveProfile, getProfile, getProfileDefaults, getProfileNames, loadProfiles, parseProfileFile, pickProfileSettings, saveProfile, setActiveProfile, SettingValidators } from "./profiles";
+import { ActuatorCommand, enqueue, MergeMode, QueuePolicy, QueuePriority, removeExpired } from "./queue";
+import { checkRateLimit, getCost, LimitKind, resetRateLimits, shouldNotifyThrottled } from "./ratelimit";
+import { buildRules, DEFAULT_ADD_ON_RULE, DEFAULT_TRIGGER_RULE, evaluateRules, TriggerRule, validateRules } from "./rules";
+import { getPauseReason, parseSchedule, validateSchedule } from "./schedule";
+import { formatBreakdown, parseScoringModel, scoreMessage, validateScoringModel } from "./scoring";
+import { checkSensorReading, getSensors, parseSensorRules, readSensor, resetSensorState, SensorRule, validateSensorRules } from "./sensors";
+import { findServerProfile, MAIN_SERVER, parseServerProfiles, ServerProfile, validateServerProfiles } from "./servers";
+import { clearTimeline, formatTimeline, getTimeline, parseSimulatedDevices, SimulatedConnector, validateSimulatedDevices } from "./simulation";
+import { addTimer, cancelTimer, cancelTimers, getTimers, parseRepeatInterval, parseWhen, Timer } from "./timers";
+
 function isValidWebSocketUrl(url: string): boolean {
     // Regular expression for WebSocket URL validation
     const webSocketUrlPattern = /^wss?:\/\/[^\s/$.?#].[^\s]*$/;
@@ -25,20 +48,129 @@ function isValidWebSocketUrl(url: string): boolean {
     return webSocketUrlPattern.test(url);
 }
 
-const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(r => {
+    const timeout = setTimeout(r, ms);
+    signal?.addEventListener("abort", () => {
+        clearTimeout(timeout);
+        r();
+    }, { once: true });
+});
+
+function parseHotkey(hotkey: string) {
+    const keys = hotkey.toLowerCase().split("+").map(key => key.trim());
+    return {
+        ctrl: keys.includes("ctrl"),
+        shift: keys.includes("shift"),
+        alt: keys.includes("alt"),
+        meta: keys.includes("meta"),
+        key: keys.find(key => !["ctrl", "shift", "alt", "meta"].includes(key)),
+    };
+}
+
+export type ConnectionState = "disconnected" | "connecting" | "connected" | "retrying";
+
+interface ServerConnection {
+    /** MAIN_SERVER or the name of a connection profile */
+    name: string;
+    client: ButtplugClient | null;
+    state: ConnectionState;
+    reconnectTimeout: NodeJS.Timeout | null;
+    reconnectAttempt: number;
+}
 
-let client: ButtplugClient | null = null;
-let connector: ButtplugBrowserWebsocketClientConnector;
+const connections = new Map<string, ServerConnection>();
+// URL each client was connected to, to notice when a connection profile changes
+const connectedUrls = new WeakMap<ButtplugClient, string>();
+// Whether the user wants to be scanning, so scanning can be resumed after reconnecting
+let scanningRequested = false;
+let scanTimeout: NodeJS.Timeout | null = null;
 let batteryIntervalId: NodeJS.Timeout | null = null;
-let vibrateQueue: VibrateEvent[] = [];
+const batteryCheckRate = 60000;
+// Failing this many commands in a row gets a device reported
+const deviceErrorWarningCount = 3;
+let sensorIntervalId: NodeJS.Timeout | null = null;
+let isPollingSensors = false;
+let vibrateQueue: ActuatorCommand[] = [];
+let isProcessingQueue = false;
+let playbackController: AbortController | null = null;
+let emergencyStopped = false;
+// The keyword is only answered in chat this often, so it can't be used to spam or to find out who uses the plugin
+const emergencyReplyCooldown = 60000;
+let lastEmergencyReply = 0;
+let directVibrateTimeout: NodeJS.Timeout | null = null;
+let grantIntervalId: NodeJS.Timeout | null = null;
+// Timestamp a manual pause ends at, Infinity until /resume is used
+let pausedUntil: number | null = null;
+let pauseIntervalId: NodeJS.Timeout | null = null;
+// Whether triggers were paused the last time it was checked, to notice when they are resumed
+let wasPaused = false;
+let deferredTriggers: { message: DiscordMessage; command: ActuatorCommand; event: TriggerEvent; }[] = [];
+const maxDeferredTriggers = 20;
+let heatIntervalId: NodeJS.Timeout | null = null;
+// Last level the devices were driven at, so they are only updated when it changes
+let lastHeatOutputs = new Map<string, number>();
+let isUpdatingHeat = false;
+const heatTickRate = 250;
+
+const rangeValidator = (min: number, max: number) => (value: number) => Number.isFinite(value) && value >= min && value <= max || `Expected a number from ${min} to ${max}`;
+const intensityValidator = rangeValidator(0, 100);
+// Checks imported profiles the same way the settings page would
+const profileValidators: SettingValidators = {
+    triggerRules: validateRules,
+    addOnRules: validateRules,
+    reactionRules: validateRules,
+    customPatterns: validateCustomPatterns,
+    actuatorTypes: validateActuatorKinds,
+    matchMode: (value: string) => ["word", "substring"].includes(value) || "Expected word or substring",
+    altOptions: (value: string) => ["none", "dmOnly", "currentChannelOnly", "currentGuildOnly"].includes(value) || "Expected none, dmOnly, currentChannelOnly or currentGuildOnly",
+    maxVibrationIntensity: intensityValidator,
+    typingStrength: intensityValidator,
+    typingDuration: rangeValidator(1, 10),
+    dmStrengthMultiplier: rangeValidator(0, 10),
+    dmDurationMultiplier: rangeValidator(0, 10),
+    heatDecay: rangeValidator(0, 20),
+    maxCommandDuration: rangeValidator(0, 3600),
+    userCooldown: rangeValidator(0, 3600),
+    globalCooldown: rangeValidator(0, 3600),
+    userBudget: rangeValidator(0, 100000),
+    budgetWindow: rangeValidator(1, 1440),
+    feedbackCooldown: rangeValidator(0, 300),
+    scoringModel: validateScoringModel,
+    feedbackTemplate: validateFeedbackTemplate,
+    dmFeedback: (value: string) => ["none", "reaction", "reply"].includes(value) || "Expected none, reaction or reply",
+    guildFeedback: (value: string) => ["none", "reaction", "reply"].includes(value) || "Expected none, reaction or reply",
+    heatGain: (value: number) => Number.isFinite(value) && value > 0 && value <= 10 || "The multiplier has to be more than 0 and at most 10",
+    directControlCommandPrefix: (value: string) => !!value.trim() || "The prefix can't be empty",
+};
 const recentlyHandledMessages: string[] = [];
-
-const pluginSettings = definePluginSettings({
+// Content of recent messages, so edits can tell which trigger words are new
+const messageContents = new Map<string, string>();
+const lastTypingEvents = new Map<string, number>();
+const typingSessionGap = 30000;
+
+export const pluginSettings = definePluginSettings({
+    controlPanel: {
+        type: OptionType.COMPONENT,
+        description: "Shows the connection, your devices and the queue, and lets you control your devices by hand",
+        component: ControlPanel,
+    },
     connectAutomatically: {
         type: OptionType.BOOLEAN,
-        description: "If true, it will connect to intiface on startup. (With this off, you need to re-enable the plugin to reconnect)",
+        description: "If true, it will connect to intiface on startup",
+        default: true,
+    },
+    autoReconnect: {
+        type: OptionType.BOOLEAN,
+        description: "If true, it will keep trying to reconnect when the connection to intiface fails or is lost",
         default: true,
     },
+    maxReconnectDelay: {
+        type: OptionType.SLIDER,
+        description: "The longest time in seconds to wait between reconnect attempts (Default: 60)",
+        markers: makeRange(5, 300, 25),
+        stickToMarkers: false,
+        default: 60,
+    },
     rampUpAndDown: {
         type: OptionType.BOOLEAN,
         description: "If true, it will try and smoothly ramp the vibration intensity up and down",
@@ -51,20 +183,161 @@ const pluginSettings = definePluginSettings({
         stickToMarkers: true,
         default: 20,
     },
+    customPatterns: {
+        type: OptionType.STRING,
+        description: "JSON object of your own patterns, keyframes are [time in ms, intensity 0 - 100]. E.g. {\"tease\": {\"keyframes\": [[0, 0], [1500, 60], [1600, 0]], \"loop\": true}}",
+        isValid: validateCustomPatterns,
+    },
+    queuePolicy: {
+        type: OptionType.SELECT,
+        description: "What happens when something new is triggered while the devices are busy",
+        options: [
+            {
+                value: "append",
+                label: "Play it after everything else in the queue (Default)",
+                default: true,
+            },
+            {
+                value: "replace",
+                label: "Stop what is playing and play the new one instead, unless what is playing has a higher priority",
+            },
+            {
+                value: "merge",
+                label: "Merge it into a waiting vibration with the same targets",
+            },
+        ],
+    },
+    queueMergeMode: {
+        type: OptionType.SELECT,
+        description: "How intensities are combined when merging vibrations",
+        options: [
+            {
+                value: "max",
+                label: "Use the highest intensity (Default)",
+                default: true,
+            },
+            {
+                value: "sum",
+                label: "Add the intensities together",
+            },
+        ],
+    },
+    queuePriorityInterrupts: {
+        type: OptionType.BOOLEAN,
+        description: "If true, direct control and commands interrupt word triggers that are playing instead of waiting for them",
+        default: true,
+    },
+    maxQueueLength: {
+        type: OptionType.SLIDER,
+        description: "Maximum amount of waiting vibrations, extra ones are dropped (0 for no limit)",
+        markers: makeRange(0, 50, 5),
+        stickToMarkers: false,
+        default: 10,
+    },
+    maxQueueDuration: {
+        type: OptionType.SLIDER,
+        description: "Maximum total length of waiting vibrations in seconds, extra ones are dropped (0 for no limit)",
+        markers: makeRange(0, 300, 30),
+        stickToMarkers: false,
+        default: 60,
+    },
+    queueExpiry: {
+        type: OptionType.SLIDER,
+        description: "Vibrations that waited longer than this many seconds are skipped (0 to never skip)",
+        markers: makeRange(0, 120, 10),
+        stickToMarkers: false,
+        default: 30,
+    },
     websocketUrl: {
         type: OptionType.STRING,
         description: "The URL of the websocket server",
         default: "ws://localhost:12345",
-        onChange: () => {
-            handleDisconnection();
-            handleConnection();
-        },
+        onChange: reconnect,
         isValid: (value: string) => {
             if (!value) return "Please enter a URL";
             if (!isValidWebSocketUrl(value)) return "Invalid URL provided. Expected format: ws://127.0.0.1:12345";
             return true;
         },
     },
+    connectionMode: {
+        type: OptionType.SELECT,
+        description: "Where the devices come from",
+        options: [
+            {
+                value: "websocket",
+                label: "Intiface, using the websocket URL (Default)",
+                default: true,
+            },
+            {
+                value: "simulation",
+                label: "Simulated devices, to try things out without hardware",
+            },
+        ],
+        onChange: reconnect,
+    },
+    simulatedDevices: {
+        type: OptionType.STRING,
+        description: "JSON array of the simulated devices, actuators are vibrate, rotate, oscillate, linear or scalar. E.g. [{\"name\": \"Lush\", \"actuators\": [\"vibrate\"], \"battery\": 80}]",
+        isValid: validateSimulatedDevices,
+        onChange: () => {
+            if (pluginSettings.store.connectionMode === "simulation" && getConnection(MAIN_SERVER).state !== "disconnected") reconnect();
+        },
+    },
+    connectionProfiles: {
+        type: OptionType.STRING,
+        description: "JSON list of other intiface servers to connect to at the same time, their devices are used like your own. E.g. [{\"name\": \"partner\", \"url\": \"ws://192.168.1.20:12345\", \"autoConnect\": true}]",
+        isValid: validateServerProfiles,
+        onChange: disconnectRemovedServers,
+    },
+    actuatorTypes: {
+        type: OptionType.STRING,
+        description: "Comma-separated list of actuator types to drive (vibrate, rotate, oscillate, linear, scalar)",
+        default: "vibrate, rotate, oscillate, linear, scalar",
+        isValid: validateActuatorKinds,
+    },
+    rotateClockwise: {
+        type: OptionType.BOOLEAN,
+        description: "If true, rotating devices will rotate clockwise",
+        default: true,
+    },
+    batteryWarningThreshold: {
+        type: OptionType.SLIDER,
+        description: "Battery percentage at which you are warned that a device is running low",
+        markers: makeRange(0, 50, 5),
+        stickToMarkers: false,
+        default: 20,
+    },
+    batteryCriticalThreshold: {
+        type: OptionType.SLIDER,
+        description: "Battery percentage at which a device is critically low",
+        markers: makeRange(0, 50, 5),
+        stickToMarkers: false,
+        default: 5,
+    },
+    stopOnCriticalBattery: {
+        type: OptionType.BOOLEAN,
+        description: "If true, devices are stopped and not used anymore once their battery is critically low, until they are charged",
+        default: false,
+    },
+    sensorInput: {
+        type: OptionType.BOOLEAN,
+        description: "If true, the sensors of your devices (buttons, pressure, ...) are read and can trigger the sensor rules",
+        default: false,
+        onChange: () => startSensorMonitor(),
+    },
+    sensorPollRate: {
+        type: OptionType.SLIDER,
+        description: "How often in milliseconds the sensors are read, lower reacts faster to short button presses",
+        markers: [250, 500, 1000, 2000, 5000],
+        stickToMarkers: true,
+        default: 500,
+        onChange: () => startSensorMonitor(),
+    },
+    sensorRules: {
+        type: OptionType.STRING,
+        description: "JSON list of sensor rules. E.g. [{\"sensor\": \"pressure\", \"above\": 95, \"action\": \"emergencyStop\"}, {\"sensor\": \"pressure\", \"above\": 80, \"action\": \"message\", \"channel\": \"<channel id>\", \"message\": \"{device} was squeezed ({value}%)\"}, {\"sensor\": \"battery\", \"device\": \"lush\", \"below\": 10, \"action\": \"pause\", \"minutes\": 30}]",
+        isValid: validateSensorRules,
+    },
     maxVibrationIntensity: {
         type: OptionType.SLIDER,
         description: "The maximum intensity of vibration",
@@ -72,6 +345,24 @@ const pluginSettings = definePluginSettings({
         stickToMarkers: false,
         default: 70,
     },
+    heatMode: {
+        type: OptionType.BOOLEAN,
+        description: "If true, triggers add to a heat level that slowly cools down and your devices follow it, instead of queueing vibrations",
+        default: false,
+    },
+    heatGain: {
+        type: OptionType.NUMBER,
+        description: "Multiplier for how much heat a trigger adds compared to its strength (Default: 1)",
+        default: 1,
+        isValid: (value: number) => value > 0 || "The multiplier has to be more than 0",
+    },
+    heatDecay: {
+        type: OptionType.SLIDER,
+        description: "How many percent of full intensity the heat level loses every second",
+        markers: makeRange(0, 20, 2),
+        stickToMarkers: false,
+        default: 2,
+    },
     targetWords: {
         type: OptionType.STRING,
         description: "Comma-separated list of words to use as targets (used for detecting things when you was not mentioned)",
@@ -84,6 +375,101 @@ const pluginSettings = definePluginSettings({
         type: OptionType.STRING,
         description: "Comma-separated list of words to add to the trigger words (increases vibration per word)",
     },
+    matchMode: {
+        type: OptionType.SELECT,
+        description: "How target, trigger and add-on words are matched. Entries written as /pattern/flags are always used as regex",
+        options: [
+            {
+                value: "substring",
+                label: "Anywhere in the message (Default)",
+                default: true,
+            },
+            {
+                value: "word",
+                label: "Whole words",
+            },
+        ],
+    },
+    matchPlurals: {
+        type: OptionType.BOOLEAN,
+        description: "If true, whole word matching also matches plurals (e.g. \"toy\" matches \"toys\")",
+        default: true,
+    },
+    ignoreRepeatedLetters: {
+        type: OptionType.BOOLEAN,
+        description: "If true, repeated letters are ignored when matching (e.g. \"good\" matches \"goooood\")",
+        default: false,
+    },
+    countRepeatedWords: {
+        type: OptionType.BOOLEAN,
+        description: "If true, a word that appears multiple times in a message counts once per occurrence",
+        default: false,
+    },
+    messageScoring: {
+        type: OptionType.BOOLEAN,
+        description: "If true, features of a triggering message (caps, exclamation marks, emoji, repeated words, length, replies and pings) add to its strength and duration using the scoring model",
+        default: false,
+    },
+    scoringModel: {
+        type: OptionType.STRING,
+        description: "JSON weights of the message features, e.g. {\"caps\": {\"strength\": 20, \"duration\": 1000}, \"exclamation\": {\"strength\": 3, \"max\": 5}, \"emoji\": {\"fire\": {\"strength\": 10}}, \"length\": {\"duration\": 250, \"per\": 100}, \"ping\": {\"strength\": 10}}",
+        default: "{\"caps\": {\"strength\": 15, \"duration\": 1000}, \"exclamation\": {\"strength\": 3, \"duration\": 250, \"max\": 5}, \"repetition\": {\"strength\": 5, \"max\": 4}, \"reply\": {\"strength\": 5}, \"ping\": {\"strength\": 10}}",
+        isValid: validateScoringModel,
+    },
+    triggerRules: {
+        type: OptionType.STRING,
+        description: "JSON list of trigger rules, overrides the defaults for words in the trigger words. E.g. [{\"word\": \"good girl\", \"strength\": 25, \"duration\": 3000, \"stacking\": \"max\", \"devices\": [\"lush\"], \"pattern\": \"constant\", \"modifiers\": {\"dm\": {\"strength\": 1.5}}}]",
+        isValid: validateRules,
+    },
+    addOnRules: {
+        type: OptionType.STRING,
+        description: "JSON list of add-on rules, same format as the trigger rules",
+        isValid: validateRules,
+    },
+    editTriggers: {
+        type: OptionType.BOOLEAN,
+        description: "If true, editing a message to add trigger words triggers for the new words",
+        default: false,
+    },
+    reactionTriggers: {
+        type: OptionType.BOOLEAN,
+        description: "If true, reactions to your messages trigger vibrations",
+        default: false,
+    },
+    reactionRules: {
+        type: OptionType.STRING,
+        description: "JSON list of rules for reactions, same format as the trigger rules with the emoji (or custom emoji name) as the word. Every reaction uses the default trigger strength if empty",
+        isValid: validateRules,
+    },
+    typingTriggers: {
+        type: OptionType.BOOLEAN,
+        description: "If true, someone starting to type to you in DMs triggers a vibration",
+        default: false,
+    },
+    typingStrength: {
+        type: OptionType.SLIDER,
+        description: "Intensity (0 - 100) of the vibration when someone starts typing",
+        markers: makeRange(0, 100, 10),
+        stickToMarkers: false,
+        default: 10,
+    },
+    typingDuration: {
+        type: OptionType.SLIDER,
+        description: "Length in seconds of the vibration when someone starts typing",
+        markers: makeRange(1, 10, 1),
+        stickToMarkers: false,
+        default: 2,
+    },
+    dmStrengthMultiplier: {
+        type: OptionType.NUMBER,
+        description: "Multiplier applied to the strength of triggers in DMs, unless a rule sets its own (Default: 1.35)",
+        default: 1.35,
+    },
+    dmDurationMultiplier: {
+        type: OptionType.NUMBER,
+        description: "Multiplier applied to the duration of triggers in DMs, unless a rule sets its own (Default: 2)",
+        default: 2,
+    },
     switchBlacklistToWhitelist: {
         type: OptionType.BOOLEAN,
         description: "If true, will switch the blacklist to a whitelist",
@@ -130,7 +516,155 @@ const pluginSettings = definePluginSettings({
     },
     directControlAllowedUsers: {
         type: OptionType.STRING,
-        description: "UserIDs to grant command access to",
+        description: "Comma-separated list of user IDs that always have full control (use /grant for temporary or limited control)",
+    },
+    emergencyStopKeyword: {
+        type: OptionType.STRING,
+        description: "Keyword anyone can send (after the command prefix, e.g. >.panic) to trigger an emergency stop. Leave empty to disable",
+        default: "panic",
+    },
+    historyRetention: {
+        type: OptionType.SLIDER,
+        description: "How many days the activity log (/history) is kept for (0 to not keep one)",
+        markers: makeRange(0, 90, 10),
+        stickToMarkers: false,
+        default: 7,
+    },
+    emergencyStopHotkey: {
+        type: OptionType.STRING,
+        description: "Keyboard shortcut that triggers an emergency stop. Leave empty to disable",
+        default: "ctrl+shift+backspace",
+        isValid: (value: string) => {
+            if (value && !parseHotkey(value).key) return "Invalid shortcut provided. Expected format: ctrl+shift+backspace";
+            return true;
+        },
+    },
+    userCooldown: {
+        type: OptionType.NUMBER,
+        description: "Seconds each user has to wait between triggers and between remote commands (0 for no cooldown)",
+        default: 0,
+        isValid: profileValidators.userCooldown,
+    },
+    globalCooldown: {
+        type: OptionType.NUMBER,
+        description: "Seconds everyone has to wait after anyone triggered or sent a remote command (0 for no cooldown)",
+        default: 0,
+        isValid: profileValidators.globalCooldown,
+    },
+    maxCommandDuration: {
+        type: OptionType.NUMBER,
+        description: "Maximum seconds a remote command can vibrate for, vibrate commands without a duration stop after this (0 for no limit)",
+        default: 60,
+        isValid: profileValidators.maxCommandDuration,
+    },
+    userBudget: {
+        type: OptionType.NUMBER,
+        description: "Intensity-seconds each user can use per budget window, full intensity for one second uses 1 (0 for no budget)",
+        default: 0,
+        isValid: profileValidators.userBudget,
+    },
+    budgetWindow: {
+        type: OptionType.NUMBER,
+        description: "Length of the budget window in minutes (Default: 10)",
+        default: 10,
+        isValid: profileValidators.budgetWindow,
+    },
+    throttleFeedback: {
+        type: OptionType.BOOLEAN,
+        description: "If true, users are told when a trigger of theirs was ignored because of a cooldown or budget (remote commands always tell them)",
+        default: true,
+    },
+    dmFeedback: {
+        type: OptionType.SELECT,
+        description: "What the sender of a message that triggered a vibration in DMs is told",
+        options: [
+            {
+                value: "none",
+                label: "Nothing (Default)",
+                default: true,
+            },
+            {
+                value: "reaction",
+                label: "React to their message",
+            },
+            {
+                value: "reply",
+                label: "Reply with the feedback template",
+            },
+        ],
+    },
+    guildFeedback: {
+        type: OptionType.SELECT,
+        description: "What the sender of a message that triggered a vibration in servers is told",
+        options: [
+            {
+                value: "none",
+                label: "Nothing (Default)",
+                default: true,
+            },
+            {
+                value: "reaction",
+                label: "React to their message",
+            },
+            {
+                value: "reply",
+                label: "Reply with the feedback template",
+            },
+        ],
+    },
+    feedbackEmoji: {
+        type: OptionType.STRING,
+        description: "Emoji to react with, custom emoji are written as name:id",
+        default: "\uD83D\uDCF3",
+        isValid: (value: string) => !!value.trim() || "The emoji can't be empty",
+    },
+    feedbackTemplate: {
+        type: OptionType.STRING,
+        description: "Reply sent to the sender, can contain {user}, {strength}, {duration}, {devices} and {triggers}",
+        default: "{user} made me vibrate at {strength}% for {duration}s",
+        isValid: validateFeedbackTemplate,
+    },
+    feedbackCooldown: {
+        type: OptionType.SLIDER,
+        description: "Seconds to wait before reacting or replying in the same channel again",
+        markers: makeRange(0, 300, 30),
+        stickToMarkers: false,
+        default: 30,
+    },
+    activeSchedule: {
+        type: OptionType.STRING,
+        description: "JSON object of days to the times triggers are allowed, always if empty. E.g. {\"mon-fri\": [\"18:00-23:30\"], \"weekend\": [\"10:00-02:00\"]}",
+        isValid: validateSchedule,
+    },
+    pauseOnDnd: {
+        type: OptionType.BOOLEAN,
+        description: "If true, triggers are paused while your status is Do Not Disturb",
+        default: false,
+    },
+    pauseWhenInvisible: {
+        type: OptionType.BOOLEAN,
+        description: "If true, triggers are paused while your status is invisible",
+        default: false,
+    },
+    pauseInVoice: {
+        type: OptionType.BOOLEAN,
+        description: "If true, triggers are paused while you are in a voice call",
+        default: false,
+    },
+    pausedTriggers: {
+        type: OptionType.SELECT,
+        description: "What happens to triggers while paused",
+        options: [
+            {
+                value: "drop",
+                label: "Ignore them (Default)",
+                default: true,
+            },
+            {
+                value: "defer",
+                label: "Play them when triggers are resumed",
+            },
+        ],
     },
     directControlCommandPrefix: {
         type: OptionType.STRING,
@@ -156,118 +690,609 @@ export default definePlugin({
     }],
     settings: pluginSettings,
     async start() {
+        document.addEventListener("keydown", handleKeyDown, true);
+        await loadDeviceConfigs();
+        await loadGrants();
+        await loadHistory();
+        await loadProfiles();
+        grantIntervalId = setInterval(checkExpiredGrants, 15000);
+        pauseIntervalId = setInterval(checkResumed, 15000);
         if (pluginSettings.store.connectAutomatically)
-            await handleConnection();
+            await connectAll();
     },
     stop() {
-        handleDisconnection();
+        document.removeEventListener("keydown", handleKeyDown, true);
+        if (grantIntervalId) clearInterval(grantIntervalId);
+        if (pauseIntervalId) clearInterval(pauseIntervalId);
+        pausedUntil = null;
+        deferredTriggers = [];
+        stopHeat();
+        resetRateLimits();
+        resetFeedback();
+        resetHealth();
+        resetSensorState();
+        cancelTimers();
+        handleDisconnection().finally(saveHistory);
     },
     flux: {
         MESSAGE_CREATE: (payload: FluxMessageCreate) => {
             handleMessage(payload.message);
         },
+        MESSAGE_UPDATE: (payload: FluxMessageUpdate) => {
+            handleMessageUpdate(payload.message);
+        },
+        MESSAGE_REACTION_ADD: (payload: FluxReactionAdd) => {
+            handleReaction(payload);
+        },
+        TYPING_START: (payload: FluxTypingStart) => {
+            handleTyping(payload);
+        },
     },
     commands: [
         {
             name: "connect",
             description: "Connect to the intiface server",
             inputType: ApplicationCommandInputType.BUILT_IN,
-            execute: async (_opts, ctx) => {
-                if (client && client.connected)
-                    return sendBotMessage(ctx.channel.id, { content: "Already connected to intiface" });
-                sendBotMessage(ctx.channel.id, { content: "Connecting to intiface..." });
-                await handleConnection();
+            options: [
+                {
+                    name: "server",
+                    description: "Only connect to this connection profile, or main (Default: main and the profiles that connect automatically)",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                }
+            ],
+            execute: async (opts, ctx) => {
+                const server = findOption<string>(opts, "server")?.trim();
+                const name = server ? resolveServerName(server) : undefined;
+                if (server && !name)
+                    return sendBotMessage(ctx.channel.id, { content: `There is no connection profile named "${server}". Available: ${[MAIN_SERVER, ...getServerProfiles().map(profile => profile.name)].join(", ")}` });
+
+                const states = (name ? [name] : getAutoConnectServers()).map(server => getConnection(server).state);
+                if (states.every(state => state === "connected"))
+                    return sendBotMessage(ctx.channel.id, { content: `Already connected to ${name ? describeServer(name) : "intiface"}` });
+                if (states.every(state => state === "connected" || state === "connecting"))
+                    return sendBotMessage(ctx.channel.id, { content: `Already connecting to ${name ? describeServer(name) : "intiface"}` });
+
+                sendBotMessage(ctx.channel.id, { content: `Connecting to ${name ? describeServer(name) : "intiface"}...` });
+                if (name) await handleConnection(name);
+                else await connectAll();
             }
         },
         {
             name: "disconnect",
             description: "Disconnect from the intiface server",
             inputType: ApplicationCommandInputType.BUILT_IN,
-            execute: async (_opts, ctx) => {
-                if (client && !client.connected)
-                    return sendBotMessage(ctx.channel.id, { content: "You were already disconnected" });
-                sendBotMessage(ctx.channel.id, { content: "Disconnecting from intiface..." });
-                await handleDisconnection();
-            }
-        },
-        {
-            name: "start_scanning",
-            description: "Start scanning for devices on the intiface server",
-            inputType: ApplicationCommandInputType.BUILT_IN,
             options: [
                 {
-                    name: "auto-stop",
-                    description: "Auto-stop scanning after 30 seconds (Default: true). if disabled, use /stop_scanning to stop scanning",
-                    type: ApplicationCommandOptionType.BOOLEAN,
+                    name: "server",
+                    description: "Only disconnect from this connection profile, or main (Default: all servers)",
+                    type: ApplicationCommandOptionType.STRING,
                     required: false,
                 }
             ],
-            execute: async (_opts, ctx) => {
-                if (!client || !client.connected)
-                    return sendBotMessage(ctx.channel.id, { content: "You are not connected to intiface" });
-
-                await client.startScanning();
-                const message = sendBotMessage(ctx.channel.id, { content: "Started scanning for devices" });
-                if (findOption(_opts, "auto-stop", true) === true)
-                    setTimeout(async () => {
-                        await client?.stopScanning();
-                        editMessage(message, "Finished scanning for devices");
-                    }, 30000);
-
-
+            execute: async (opts, ctx) => {
+                const server = findOption<string>(opts, "server")?.trim();
+                const name = server ? resolveServerName(server) : undefined;
+                if (server && !name)
+                    return sendBotMessage(ctx.channel.id, { content: `There is no connection profile named "${server}"` });
 
+                if ((name ? getConnection(name).state : getConnectionState()) === "disconnected")
+                    return sendBotMessage(ctx.channel.id, { content: "You were already disconnected" });
+                sendBotMessage(ctx.channel.id, { content: `Disconnecting from ${name ? describeServer(name) : "intiface"}...` });
+                await handleDisconnection(name);
             }
         },
         {
-            name: "stop_scanning",
-            description: "Stop scanning for devices on the intiface server",
+            name: "emergency_stop",
+            description: "Immediately stop all devices and lock out triggers and remote control until /rearm",
             inputType: ApplicationCommandInputType.BUILT_IN,
             execute: async (_opts, ctx) => {
-                if (!client || !client.connected)
-                    return sendBotMessage(ctx.channel.id, { content: "You are not connected to intiface" });
-                await client.stopScanning();
-                sendBotMessage(ctx.channel.id, { content: "Stopped scanning for devices" });
+                await emergencyStop("You used /emergency_stop");
+                sendBotMessage(ctx.channel.id, { content: "Emergency stop! All devices were stopped, use /rearm to allow triggers and remote control again" });
             }
         },
         {
-            name: "words",
-            description: "Send all your trigger words",
+            name: "rearm",
+            description: "Allow triggers and remote control again after an emergency stop",
             inputType: ApplicationCommandInputType.BUILT_IN,
             execute: async (_opts, ctx) => {
-                const triggerWords = pluginSettings.store.triggerWords?.split(",");
-                const addOnWords = pluginSettings.store.addOnWords?.split(",");
-                const targetWords = pluginSettings.store.targetWords?.split(",");
-
-                sendMessage(ctx.channel.id, { content: `**Target words:** ${targetWords?.join(", ")}\n\n**Trigger words:** ${triggerWords?.join(", ")}\n\n**Add-on words:** ${addOnWords?.join(", ")}` });
+                if (!emergencyStopped)
+                    return sendBotMessage(ctx.channel.id, { content: "There is no emergency stop to rearm from" });
+                emergencyStopped = false;
+                sendBotMessage(ctx.channel.id, { content: "Rearmed, triggers and remote control are allowed again" });
             }
         },
         {
-            name: "test",
-            description: "Test the vibration of all devices",
+            name: "pause",
+            description: "Pause triggers and remote control from others, until you resume or for a while",
+            inputType: ApplicationCommandInputType.BUILT_IN,
             options: [
                 {
-                    name: "intensity",
-                    description: "The intensity to use (0 - 100). Default: 30%",
-                    type: ApplicationCommandOptionType.INTEGER,
-                    required: false,
-                },
-                {
-                    name: "duration",
-                    description: "The duration to use (uses ms (1000 = 1 second)). Default: 2000",
+                    name: "minutes",
+                    description: "Resume automatically after this many minutes (Default: until /resume)",
                     type: ApplicationCommandOptionType.INTEGER,
                     required: false,
                 }
             ],
-            inputType: ApplicationCommandInputType.BUILT_IN,
-            execute: async (opts, _ctx) => {
-                const intensity = findOption(opts, "intensity", 30);
-                const duration = findOption(opts, "duration", 2000);
-                await addToVibrateQueue(<VibrateEvent>{ duration, strength: intensity / 100 });
+            execute: (opts, ctx) => {
+                const minutes = findOption<number>(opts, "minutes");
+                if (minutes !== undefined && minutes <= 0)
+                    return sendBotMessage(ctx.channel.id, { content: "The minutes have to be more than 0" });
+
+                const until = pause(minutes);
+                sendBotMessage(ctx.channel.id, { content: minutes ? `Paused, resuming <t:${Math.floor(until / 1000)}:R>` : "Paused until you use /resume" });
             }
         },
         {
-            name: "devices",
-            description: "List all connected devices",
+            name: "resume",
+            description: "Resume triggers and remote control after /pause",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            execute: (_opts, ctx) => {
+                if (pausedUntil === null || pausedUntil <= Date.now())
+                    return sendBotMessage(ctx.channel.id, { content: "You didn't pause" });
+
+                pausedUntil = null;
+                const reason = getCurrentPauseReason();
+                sendBotMessage(ctx.channel.id, { content: reason ? `Resumed, but triggers are still paused because ${reason}` : "Resumed" });
+                checkResumed();
+            }
+        },
+        {
+            name: "sensors",
+            description: "Read the sensors of your devices, to find the values for sensor rules",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            execute: async (_opts, ctx) => {
+                if (!isConnected())
+                    return sendBotMessage(ctx.channel.id, { content: `You are not connected to intiface (${getConnectionState()})` });
+
+                const lines: string[] = [];
+                for (const device of getDevices()) {
+                    for (const sensor of getSensors(device)) {
+                        const reading = await readSensor(device, sensor).then(value => `${Math.round(value)}%`, error => `failed (${error.message})`);
+                        lines.push(`**${getDeviceLabel(device)}** ${sensor.kind} ${sensor.index}: ${reading}`);
+                    }
+                }
+
+                sendBotMessage(ctx.channel.id, {
+                    content: lines.length ? `**Sensors**${pluginSettings.store.sensorInput ? "" : " (sensor input is turned off)"}\n${lines.join("\n")}` : "None of your devices has sensors that can be read"
+                });
+            }
+        },
+        {
+            name: "heat",
+            description: "Show the current heat level",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "reset",
+                    description: "Cool the heat level down to 0",
+                    type: ApplicationCommandOptionType.BOOLEAN,
+                    required: false,
+                }
+            ],
+            execute: async (opts, ctx) => {
+                if (findOption(opts, "reset", false)) {
+                    stopHeat();
+                    await stopDevices(getDevices());
+                    return sendBotMessage(ctx.channel.id, { content: "The heat level was reset" });
+                }
+
+                const { heatMode, heatDecay } = pluginSettings.store;
+                const lines = [
+                    `**Heat:** ${formatHeat(getHeat(getHeatOptions()))}`,
+                    `Cools down by ${heatDecay}% per second, up to ${pluginSettings.store.maxVibrationIntensity}%`,
+                ];
+                if (!heatMode) lines.push("Heat mode is off, turn it on in the plugin settings for triggers to add heat");
+                sendBotMessage(ctx.channel.id, { content: lines.join("\n") });
+            }
+        },
+        {
+            name: "grant",
+            description: "Let someone control your toys, optionally limited in time, power or channel",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "user",
+                    description: "The user to grant control to",
+                    type: ApplicationCommandOptionType.USER,
+                    required: true,
+                },
+                {
+                    name: "tier",
+                    description: "What they are allowed to do (Default: vibrate)",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                    choices: [
+                        { name: "triggers", label: "triggers", displayName: "triggers", value: "triggers" },
+                        { name: "vibrate", label: "vibrate", displayName: "vibrate", value: "vibrate" },
+                        { name: "full", label: "full", displayName: "full", value: "full" },
+                    ],
+                },
+                {
+                    name: "minutes",
+                    description: "How long the grant lasts, forever if left out",
+                    type: ApplicationCommandOptionType.INTEGER,
+                    required: false,
+                },
+                {
+                    name: "max_intensity",
+                    description: "Highest intensity (0 - 100) they can use with the vibrate tier",
+                    type: ApplicationCommandOptionType.INTEGER,
+                    required: false,
+                },
+                {
+                    name: "this_channel_only",
+                    description: "Only allow control from this channel (Default: false)",
+                    type: ApplicationCommandOptionType.BOOLEAN,
+                    required: false,
+                }
+            ],
+            execute: async (opts, ctx) => {
+                const userId = findOption<string>(opts, "user", "");
+                const tier = findOption<GrantTier>(opts, "tier", "vibrate");
+                const minutes = findOption<number>(opts, "minutes");
+                const maxIntensity = findOption<number>(opts, "max_intensity");
+
+                if (minutes !== undefined && minutes <= 0)
+                    return sendBotMessage(ctx.channel.id, { content: "The duration has to be at least a minute" });
+                if (maxIntensity !== undefined && (maxIntensity < 0 || maxIntensity > 100))
+                    return sendBotMessage(ctx.channel.id, { content: "The maximum intensity has to be between 0 and 100" });
+
+                const grant: Grant = {
+                    userId,
+                    tier,
+                    maxIntensity: tier === "vibrate" ? maxIntensity : undefined,
+                    channelId: findOption(opts, "this_channel_only", false) ? ctx.channel.id : undefined,
+                    expiresAt: minutes ? Date.now() + minutes * 60000 : undefined,
+                };
+                await addGrant(grant);
+
+                sendBotMessage(ctx.channel.id, {
+                    content: `Granted control to ${describeGrant(grant)}${pluginSettings.store.allowDirectUserControl ? "" : "\nDirect control is turned off in the settings, so the grant does nothing until it is turned on"}`
+                });
+            }
+        },
+        {
+            name: "revoke",
+            description: "Take away someone's control over your toys",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "user",
+                    description: "The user to revoke control from",
+                    type: ApplicationCommandOptionType.USER,
+                    required: true,
+                }
+            ],
+            execute: async (opts, ctx) => {
+                const userId = findOption<string>(opts, "user", "");
+                const count = await revokeGrants(userId);
+
+                const fromSettings = getGrants(pluginSettings.store.directControlAllowedUsers).some(grant => grant.userId === userId && grant.permanent);
+                sendBotMessage(ctx.channel.id, {
+                    content: `${count ? `Revoked ${count} grant(s) from <@${userId}>` : `<@${userId}> had no grants`}${fromSettings ? ", but they are still in the direct control users setting" : ""}`
+                });
+            }
+        },
+        {
+            name: "grants",
+            description: "List everyone that can control your toys",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            execute: async (_opts, ctx) => {
+                const grants = getGrants(pluginSettings.store.directControlAllowedUsers);
+                sendBotMessage(ctx.channel.id, {
+                    content: grants.length ? `**Grants**\n${grants.map(describeGrant).join("\n")}` : "Nobody has been granted control"
+                });
+            }
+        },
+        {
+            name: "start_scanning",
+            description: "Start scanning for devices on the intiface server",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "auto-stop",
+                    description: "Auto-stop scanning after 30 seconds (Default: true). if disabled, use /stop_scanning to stop scanning",
+                    type: ApplicationCommandOptionType.BOOLEAN,
+                    required: false,
+                }
+            ],
+            execute: async (_opts, ctx) => {
+                if (!isConnected())
+                    return sendBotMessage(ctx.channel.id, { content: `You are not connected to intiface (${getConnectionState()})` });
+
+                const autoStop = findOption(_opts, "auto-stop", true) === true;
+                const message: Message = sendBotMessage(ctx.channel.id, { content: "Started scanning for devices" });
+                await startScanning(autoStop, () => editMessage(message, "Finished scanning for devices"));
+            }
+        },
+        {
+            name: "stop_scanning",
+            description: "Stop scanning for devices on the intiface server",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            execute: async (_opts, ctx) => {
+                if (!isConnected())
+                    return sendBotMessage(ctx.channel.id, { content: `You are not connected to intiface (${getConnectionState()})` });
+                await stopScanning();
+                sendBotMessage(ctx.channel.id, { content: "Stopped scanning for devices" });
+            }
+        },
+        {
+            name: "words",
+            description: "Send all your trigger words",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            execute: async (_opts, ctx) => {
+                const triggerWords = buildRules(pluginSettings.store.triggerRules, pluginSettings.store.triggerWords, DEFAULT_TRIGGER_RULE).map(rule => rule.word);
+                const addOnWords = buildRules(pluginSettings.store.addOnRules, pluginSettings.store.addOnWords, DEFAULT_ADD_ON_RULE).map(rule => rule.word);
+                const targetWords = splitWordList(pluginSettings.store.targetWords);
+
+                sendMessage(ctx.channel.id, { content: `**Target words:** ${targetWords?.join(", ")}\n\n**Trigger words:** ${triggerWords?.join(", ")}\n\n**Add-on words:** ${addOnWords?.join(", ")}` });
+            }
+        },
+        {
+            name: "test",
+            description: "Test the vibration of all devices",
+            options: [
+                {
+                    name: "intensity",
+                    description: "The intensity to use (0 - 100). Default: 30%",
+                    type: ApplicationCommandOptionType.INTEGER,
+                    required: false,
+                },
+                {
+                    name: "duration",
+                    description: "The duration to use (uses ms (1000 = 1 second)). Default: 2000",
+                    type: ApplicationCommandOptionType.INTEGER,
+                    required: false,
+                },
+                {
+                    name: "pattern",
+                    description: "The pattern to preview (e.g. pulse, wave, escalate, heartbeat, random or one of your own)",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                },
+                {
+                    name: "actuator",
+                    description: "Only test one type of actuator (vibrate, rotate, oscillate, linear or scalar)",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                }
+            ],
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            execute: async (opts, ctx) => {
+                if (emergencyStopped)
+                    return sendBotMessage(ctx.channel.id, { content: "Everything is stopped after the emergency stop, use /rearm first" });
+
+                const intensity = findOption(opts, "intensity", 30);
+                const duration = findOption(opts, "duration", 2000);
+                const pattern = findOption<string>(opts, "pattern")?.trim();
+                const actuator = findOption<string>(opts, "actuator")?.trim();
+
+                const patternNames = getPatternNames(pluginSettings.store.customPatterns);
+                if (pattern && !patternNames.includes(pattern))
+                    return sendBotMessage(ctx.channel.id, { content: `Unknown pattern "${pattern}". Available patterns: ${patternNames.join(", ")}` });
+
+                const actuators = parseActuatorKinds(actuator);
+                if (actuator && actuators.length === 0)
+                    return sendBotMessage(ctx.channel.id, { content: `Unknown actuator "${actuator}". Available actuators: vibrate, rotate, oscillate, linear, scalar` });
+
+                await addToVibrateQueue(<ActuatorCommand>{ duration, strength: intensity / 100, pattern, actuators, priority: QueuePriority.Command, source: "/test" });
+            }
+        },
+        {
+            name: "schedule",
+            description: "Vibrate later, after a delay or at a time of day, once or repeating",
+            options: [
+                {
+                    name: "when",
+                    description: "A delay (e.g. 30s, 10m or 1h30m) or a time (e.g. 22:30). Default: one repeat interval from now",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                },
+                {
+                    name: "every",
+                    description: "Repeat it this often (e.g. 10m or 1h). Default: only once",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                },
+                {
+                    name: "intensity",
+                    description: "The intensity to use (0 - 100). Default: 30%",
+                    type: ApplicationCommandOptionType.INTEGER,
+                    required: false,
+                },
+                {
+                    name: "duration",
+                    description: "The duration to use (uses ms (1000 = 1 second)). Default: 2000",
+                    type: ApplicationCommandOptionType.INTEGER,
+                    required: false,
+                },
+                {
+                    name: "pattern",
+                    description: "The pattern to play (e.g. pulse, wave, escalate, heartbeat, random or one of your own)",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                },
+                {
+                    name: "actuator",
+                    description: "Only use one type of actuator (vibrate, rotate, oscillate, linear or scalar)",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                }
+            ],
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            execute: (opts, ctx) => {
+                if (emergencyStopped)
+                    return sendBotMessage(ctx.channel.id, { content: "Everything is stopped after the emergency stop, use /rearm first" });
+
+                const when = findOption<string>(opts, "when")?.trim();
+                const repeat = findOption<string>(opts, "every")?.trim();
+                const intensity = findOption(opts, "intensity", 30);
+                const duration = findOption(opts, "duration", 2000);
+                const pattern = findOption<string>(opts, "pattern")?.trim();
+                const actuator = findOption<string>(opts, "actuator")?.trim();
+
+                if (!when && !repeat)
+                    return sendBotMessage(ctx.channel.id, { content: "Say when to vibrate, every how long, or both" });
+
+                const patternNames = getPatternNames(pluginSettings.store.customPatterns);
+                if (pattern && !patternNames.includes(pattern))
+                    return sendBotMessage(ctx.channel.id, { content: `Unknown pattern "${pattern}". Available patterns: ${patternNames.join(", ")}` });
+
+                const actuators = parseActuatorKinds(actuator);
+                if (actuator && actuators.length === 0)
+                    return sendBotMessage(ctx.channel.id, { content: `Unknown actuator "${actuator}". Available actuators: vibrate, rotate, oscillate, linear, scalar` });
+
+                let at: number, every: number | undefined;
+                try {
+                    every = repeat ? parseRepeatInterval(repeat) : undefined;
+                    at = when ? parseWhen(when) : Date.now() + every!;
+                } catch (error) {
+                    return sendBotMessage(ctx.channel.id, { content: (error as Error).message });
+                }
+
+                const timer = scheduleCommand({
+                    command: <ActuatorCommand>{ duration, strength: intensity / 100, pattern, actuators, priority: QueuePriority.Command, source: "/schedule" },
+                    at,
+                    every,
+                    userId: Vencord.Webpack.Common.UserStore.getCurrentUser().id,
+                });
+                sendBotMessage(ctx.channel.id, { content: `Scheduled #${timer.id}: ${describeTimer(timer)}` });
+            }
+        },
+        {
+            name: "scheduled",
+            description: "List the scheduled vibrations, or cancel them",
+            options: [
+                {
+                    name: "cancel",
+                    description: "The number of the schedule to cancel, or all",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                }
+            ],
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            execute: (opts, ctx) => {
+                const cancel = findOption<string>(opts, "cancel")?.trim().replace(/^#/, "").toLowerCase();
+                if (!cancel)
+                    return sendBotMessage(ctx.channel.id, { content: formatTimers() });
+
+                if (cancel === "all")
+                    return sendBotMessage(ctx.channel.id, { content: `Cancelled ${cancelTimers()} scheduled vibration(s)` });
+
+                const timer = cancelTimer(Number(cancel));
+                sendBotMessage(ctx.channel.id, { content: timer ? `Cancelled #${timer.id}: ${describeTimer(timer)}` : `There is no scheduled vibration #${cancel}` });
+            }
+        },
+        {
+            name: "simulate",
+            description: "Explain what a message would do, without vibrating anything",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "message",
+                    description: "The text of the message",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: true,
+                },
+                {
+                    name: "author",
+                    description: "Who sends the message (Default: someone without a grant)",
+                    type: ApplicationCommandOptionType.USER,
+                    required: false,
+                },
+                {
+                    name: "channel",
+                    description: "The channel the message is sent in (Default: this channel)",
+                    type: ApplicationCommandOptionType.CHANNEL,
+                    required: false,
+                },
+                {
+                    name: "dm",
+                    description: "Pretend the message is a DM (Default: whether the channel is a DM)",
+                    type: ApplicationCommandOptionType.BOOLEAN,
+                    required: false,
+                },
+                {
+                    name: "mentions_me",
+                    description: "Pretend the message pings you (Default: false)",
+                    type: ApplicationCommandOptionType.BOOLEAN,
+                    required: false,
+                },
+                {
+                    name: "replies_to_me",
+                    description: "Pretend the message replies to you (Default: false)",
+                    type: ApplicationCommandOptionType.BOOLEAN,
+                    required: false,
+                },
+                {
+                    name: "edited_from",
+                    description: "Pretend the message was edited and had this text before",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                }
+            ],
+            execute: (opts, ctx) => {
+                const { UserStore, ChannelStore } = Vencord.Webpack.Common;
+                const currentUser = UserStore.getCurrentUser();
+
+                const authorId = findOption<string>(opts, "author");
+                const author: DiscordUser = authorId
+                    ? UserStore.getUser(authorId) ?? { id: authorId, username: authorId, bot: false }
+                    : { id: "0", username: "someone", bot: false } as DiscordUser;
+
+                const channelId = findOption(opts, "channel", ctx.channel.id);
+                const guildId = findOption(opts, "dm", false) ? undefined : ChannelStore.getChannel(channelId)?.guild_id ?? undefined;
+
+                const message = {
+                    id: `simulated-${Date.now()}`,
+                    content: findOption(opts, "message", ""),
+                    author,
+                    channel_id: channelId,
+                    guild_id: guildId,
+                    mentions: findOption(opts, "mentions_me", false) ? [currentUser] : [],
+                    referenced_message: findOption(opts, "replies_to_me", false) ? { author: currentUser } : undefined,
+                } as DiscordMessage;
+
+                const previousContent = findOption<string>(opts, "edited_from");
+                const decision = decideMessage(message, previousContent !== undefined ? { event: "edit", previousContent } : {});
+                const outcome = {
+                    ignore: "Nothing would happen",
+                    emergencyStop: "Everything would be stopped",
+                    directControl: "The command would be run",
+                    trigger: "The vibration would be queued, unless the cooldowns or budget of the author are used up",
+                }[decision.action];
+                const editsOff = previousContent !== undefined && !pluginSettings.store.editTriggers ? "\nEdits are turned off in the settings though, so nothing would happen" : "";
+
+                sendBotMessage(ctx.channel.id, {
+                    content: `**Simulating a message from ${author.username}${guildId ? "" : " in a DM"}**\n${decision.steps.map(step => `- ${step}`).join("\n")}\n**${outcome}** (nothing was sent to your devices)${editsOff}`
+                });
+            }
+        },
+        {
+            name: "queue",
+            description: "Show the vibration queue",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "clear",
+                    description: "Clear the queue and stop what is playing (Default: false)",
+                    type: ApplicationCommandOptionType.BOOLEAN,
+                    required: false,
+                }
+            ],
+            execute: async (opts, ctx) => {
+                if (findOption(opts, "clear", false)) {
+                    await stopAll();
+                    return sendBotMessage(ctx.channel.id, { content: "Cleared the queue" });
+                }
+
+                sendBotMessage(ctx.channel.id, { content: formatQueue() });
+            }
+        },
+        {
+            name: "devices",
+            description: "List all connected devices",
             inputType: ApplicationCommandInputType.BUILT_IN,
             options: [
                 {
@@ -278,17 +1303,18 @@ export default definePlugin({
                 }
             ],
             execute: async (_opts, ctx) => {
-                if (!client || !client.connected)
-                    return sendBotMessage(ctx.channel.id, { content: "You are not connected to intiface" });
+                if (!isConnected())
+                    return sendBotMessage(ctx.channel.id, { content: `You are not connected to intiface (${getConnectionState()})` });
 
-                const { devices } = client;
+                const devices = getDevices();
                 if (devices.length === 0)
                     return sendBotMessage(ctx.channel.id, { content: "No devices connected" });
 
                 const deviceInfo: string[] = [];
 
-                for (let i = 0; i < client.devices.length; i++) {
-                    deviceInfo.push(`**Name:** ${client.devices[i].name}, **Battery:** ${client.devices[i].hasBattery ? `${await client.devices[i].battery() * 100}%` : "No battery"}`);
+                for (const device of devices) {
+                    await checkBattery(device).catch(error => console.error(error));
+                    deviceInfo.push(`**Name:** ${getDeviceLabel(device)}, **ID:** ${getDeviceReference(device)}${getDeviceServer(device) ? `, **Server:** ${getDeviceServer(device)}` : ""}${getDeviceConfig(device).enabled ? "" : " (disabled)"}, **Actuators:** ${describeActuators(device)}, **Health:** ${describeHealth(getDeviceHealth(device))}`);
                 }
 
                 findOption(_opts, "send_to_channel") ? sendMessage(ctx.channel.id, {
@@ -297,6 +1323,303 @@ export default definePlugin({
                     content: `**Connected devices:** \n ${deviceInfo.join("\n")}`
                 });
             }
+        },
+        {
+            name: "device_config",
+            description: "Show or change the settings of a device, they are kept when it reconnects",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "device",
+                    description: "The nickname or ID of the device (see /devices)",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: true,
+                },
+                {
+                    name: "enabled",
+                    description: "Whether the device should be used at all",
+                    type: ApplicationCommandOptionType.BOOLEAN,
+                    required: false,
+                },
+                {
+                    name: "max_intensity",
+                    description: "The intensity (0 - 100) full strength is mapped to for this device",
+                    type: ApplicationCommandOptionType.INTEGER,
+                    required: false,
+                },
+                {
+                    name: "min_intensity",
+                    description: "The lowest intensity (0 - 100) this device still reacts to, weaker vibrations are raised to this",
+                    type: ApplicationCommandOptionType.INTEGER,
+                    required: false,
+                },
+                {
+                    name: "nickname",
+                    description: "A name to use for the device in commands and rules (use \"none\" to remove it)",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                },
+                {
+                    name: "triggers",
+                    description: "Comma-separated list of trigger words this device responds to (use \"all\" for every trigger)",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                }
+            ],
+            execute: async (opts, ctx) => {
+                if (!isConnected())
+                    return sendBotMessage(ctx.channel.id, { content: `You are not connected to intiface (${getConnectionState()})` });
+
+                const device = findDevice(getDevices(), findOption(opts, "device", ""));
+                if (!device)
+                    return sendBotMessage(ctx.channel.id, { content: "No device with that nickname or ID is connected" });
+
+                const enabled = findOption<boolean>(opts, "enabled");
+                const maxIntensity = findOption<number>(opts, "max_intensity");
+                const minIntensity = findOption<number>(opts, "min_intensity");
+                const nickname = findOption<string>(opts, "nickname")?.trim();
+                const triggers = findOption<string>(opts, "triggers")?.trim();
+
+                if ((maxIntensity !== undefined && (maxIntensity < 0 || maxIntensity > 100)) || (minIntensity !== undefined && (minIntensity < 0 || minIntensity > 100)))
+                    return sendBotMessage(ctx.channel.id, { content: "Intensities have to be between 0 and 100" });
+
+                if (nickname && nickname !== "none" && (nickname.includes(" ") || !isNaN(Number(nickname))))
+                    return sendBotMessage(ctx.channel.id, { content: "Nicknames can't contain spaces or be a number" });
+
+                if (nickname && nickname !== "none" && getDevices().some(other => other !== device && getDeviceConfig(other).nickname?.toLowerCase() === nickname.toLowerCase()))
+                    return sendBotMessage(ctx.channel.id, { content: "Another device already uses that nickname" });
+
+                if (enabled !== undefined || maxIntensity !== undefined || minIntensity !== undefined || nickname || triggers) {
+                    await setDeviceConfig(device, {
+                        ...(enabled !== undefined && { enabled }),
+                        ...(maxIntensity !== undefined && { maxIntensity }),
+                        ...(minIntensity !== undefined && { minIntensity }),
+                        ...(nickname && { nickname: nickname === "none" ? undefined : nickname }),
+                        ...(triggers && { triggers: triggers === "all" ? [] : splitWordList(triggers.toLowerCase()) }),
+                    });
+                }
+
+                const config = getDeviceConfig(device);
+                sendBotMessage(ctx.channel.id, {
+                    content: `**${getDeviceLabel(device)}** (ID: ${getDeviceReference(device)})\n**Enabled:** ${config.enabled}\n**Intensity range:** ${config.minIntensity}% - ${config.maxIntensity}%\n**Nickname:** ${config.nickname ?? "None"}\n**Triggers:** ${config.triggers.length ? config.triggers.join(", ") : "All"}`
+                });
+            }
+        },
+        {
+            name: "simulation_timeline",
+            description: "Show what the simulated devices were told to do",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "seconds",
+                    description: "How many seconds back to show (Default: 30)",
+                    type: ApplicationCommandOptionType.INTEGER,
+                    required: false,
+                },
+                {
+                    name: "clear",
+                    description: "Clear the recorded commands (Default: false)",
+                    type: ApplicationCommandOptionType.BOOLEAN,
+                    required: false,
+                }
+            ],
+            execute: (opts, ctx) => {
+                if (findOption(opts, "clear", false)) {
+                    clearTimeline();
+                    return sendBotMessage(ctx.channel.id, { content: "Cleared the recorded commands" });
+                }
+
+                const seconds = findOption(opts, "seconds", 30);
+                if (seconds <= 0 || seconds > 3600)
+                    return sendBotMessage(ctx.channel.id, { content: "The seconds have to be between 1 and 3600" });
+
+                const recent = getTimeline().filter(entry => entry.time >= Date.now() - seconds * 1000);
+                const mode = pluginSettings.store.connectionMode === "simulation" ? "" : "\n-# The simulation isn't being used, switch the connection mode in the settings to use it";
+                const lastCommands = recent.slice(-10).map(entry => `<t:${Math.floor(entry.time / 1000)}:T> ${entry.device} ${entry.actuator}: ${Math.round(entry.value * 100)}%`);
+
+                sendBotMessage(ctx.channel.id, {
+                    content: `**Last ${seconds} seconds** (${recent.length} commands)\n${formatTimeline(seconds * 1000)}${lastCommands.length ? `\n\n**Latest commands**\n${lastCommands.join("\n")}` : ""}${mode}`
+                });
+            }
+        },
+        {
+            name: "profile",
+            description: "Switch between saved sets of words, rules, filters, limits and remote control settings",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "action",
+                    description: "What to do",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: true,
+                    choices: [
+                        { name: "list", label: "list", displayName: "list", value: "list" },
+                        { name: "switch", label: "switch", displayName: "switch", value: "switch" },
+                        { name: "save", label: "save", displayName: "save", value: "save" },
+                        { name: "delete", label: "delete", displayName: "delete", value: "delete" },
+                        { name: "export", label: "export", displayName: "export", value: "export" },
+                        { name: "import", label: "import", displayName: "import", value: "import" },
+                    ],
+                },
+                {
+                    name: "name",
+                    description: "The profile to switch to, save the current settings as, delete or export (Default for export: all)",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                }
+            ],
+            execute: async (opts, ctx) => {
+                const action = findOption<string>(opts, "action", "list");
+                const name = findOption(opts, "name", "").trim();
+                const existing = name ? findProfile(name) : undefined;
+                const reply = (content: string) => sendBotMessage(ctx.channel.id, { content });
+
+                switch (action) {
+                    case "list": {
+                        const names = getProfileNames();
+                        if (names.length === 0) return reply("There are no profiles yet, use `/profile action:save name:<name>` to save the current settings as one");
+
+                        const active = getActiveProfile();
+                        return reply(`**Profiles:**\n${names.map(profile => profile === active ? `${profile} (active)` : profile).join("\n")}`);
+                    }
+                    case "switch": {
+                        if (!existing) return reply(`There is no profile called "${name}"`);
+
+                        applyProfile(pluginSettings.store, getProfile(existing)!, getProfileDefaults(pluginSettings.def));
+                        await setActiveProfile(existing);
+                        return reply(`Switched to the ${existing} profile`);
+                    }
+                    case "save": {
+                        if (!name) return reply("The profile needs a name");
+
+                        await saveProfile(existing ?? name, pickProfileSettings(pluginSettings.store));
+                        await setActiveProfile(existing ?? name);
+                        return reply(`${existing ? "Updated" : "Saved"} the ${existing ?? name} profile`);
+                    }
+                    case "delete": {
+                        if (!existing) return reply(`There is no profile called "${name}"`);
+
+                        await deleteProfile(existing);
+                        return reply(`Deleted the ${existing} profile`);
+                    }
+                    case "export": {
+                        if (name && !existing) return reply(`There is no profile called "${name}"`);
+
+                        const names = existing ? [existing] : getProfileNames();
+                        if (names.length === 0) return reply("There are no profiles to export");
+
+                        saveFile(new File([exportProfiles(names)], `venplug-profiles${existing ? `-${existing}` : ""}.json`, { type: "application/json" }));
+                        return reply(`Exported ${names.join(", ")}`);
+                    }
+                    case "import": {
+                        const file = await chooseFile("application/json");
+                        if (!file) return;
+
+                        let imported;
+                        try {
+                            imported = parseProfileFile(await file.text(), profileValidators);
+                        } catch (error) {
+                            return reply(`Couldn't import the profiles: ${(error as Error).message}`);
+                        }
+
+                        for (const [profileName, settings] of Object.entries(imported)) {
+                            await saveProfile(findProfile(profileName) ?? profileName, settings);
+                        }
+                        return reply(`Imported ${Object.keys(imported).join(", ")}, use \`/profile action:switch\` to use one`);
+                    }
+                }
+            }
+        },
+        {
+            name: "history",
+            description: "Show what triggered your toys, who used commands and what happened to the connection",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "user",
+                    description: "Only show what this user did",
+                    type: ApplicationCommandOptionType.USER,
+                    required: false,
+                },
+                {
+                    name: "channel",
+                    description: "Only show what happened in this channel",
+                    type: ApplicationCommandOptionType.CHANNEL,
+                    required: false,
+                },
+                {
+                    name: "kind",
+                    description: "Only show one kind of event",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                    choices: activityKinds.map(kind => ({ name: kind, label: kind, displayName: kind, value: kind })),
+                },
+                {
+                    name: "since",
+                    description: "Start of the time range, e.g. 2h, 3d or 2024-01-31 18:00 (Default: everything)",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                },
+                {
+                    name: "until",
+                    description: "End of the time range, same format as since (Default: now)",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                },
+                {
+                    name: "export",
+                    description: "Save the matching events to a file instead of showing them",
+                    type: ApplicationCommandOptionType.STRING,
+                    required: false,
+                    choices: [
+                        { name: "json", label: "JSON", displayName: "JSON", value: "json" },
+                        { name: "csv", label: "CSV", displayName: "CSV", value: "csv" },
+                    ],
+                },
+                {
+                    name: "clear",
+                    description: "Delete the whole history (Default: false)",
+                    type: ApplicationCommandOptionType.BOOLEAN,
+                    required: false,
+                }
+            ],
+            execute: async (opts, ctx) => {
+                if (findOption(opts, "clear", false)) {
+                    await clearHistory();
+                    return sendBotMessage(ctx.channel.id, { content: "Cleared the history" });
+                }
+
+                const sinceText = findOption<string>(opts, "since");
+                const untilText = findOption<string>(opts, "until");
+                const since = sinceText ? parseTime(sinceText) : undefined;
+                const until = untilText ? parseTime(untilText) : undefined;
+                if ((sinceText && since === undefined) || (untilText && until === undefined))
+                    return sendBotMessage(ctx.channel.id, { content: "Invalid time, use something like 30m, 2h, 7d or 2024-01-31 18:00" });
+
+                const kind = findOption<string>(opts, "kind") as ActivityKind | undefined;
+                const entries = getHistory({
+                    kinds: kind && [kind],
+                    userId: findOption<string>(opts, "user"),
+                    channelId: findOption<string>(opts, "channel"),
+                    since,
+                    until,
+                });
+
+                const format = findOption<string>(opts, "export") as "json" | "csv" | undefined;
+                if (format) {
+                    const type = format === "json" ? "application/json" : "text/csv";
+                    saveFile(new File([exportHistory(entries, format)], `venplug-history-${new Date().toISOString().slice(0, 10)}.${format}`, { type }));
+                    return sendBotMessage(ctx.channel.id, { content: `Exported ${entries.length} events` });
+                }
+
+                if (entries.length === 0)
+                    return sendBotMessage(ctx.channel.id, { content: "Nothing happened in that time" });
+
+                const shown = entries.slice(-15);
+                sendBotMessage(ctx.channel.id, {
+                    content: `**History** (${shown.length < entries.length ? `latest ${shown.length} of ` : ""}${entries.length} events)\n${shown.map(formatActivity).join("\n")}`
+                });
+            }
         }
     ]
 });
@@ -312,326 +1635,1158 @@ async function handleMessage(message: DiscordMessage) {
         }
     }
 
+    rememberContent(message);
+    const decision = decideMessage(message);
+    switch (decision.action) {
+        case "emergencyStop":
+            if (emergencyStopped) return;
+            await emergencyStop(`${message.author.username} sent the emergency stop keyword`, message);
+
+            if (Date.now() - lastEmergencyReply < emergencyReplyCooldown) return;
+            lastEmergencyReply = Date.now();
+            return sendMessage(message.channel_id, {
+                content: "Emergency stop! All devices were stopped"
+            });
+        case "directControl": {
+            const prefix = pluginSettings.store.directControlCommandPrefix;
+            return runDirectControlCommand(message, message.content.toLowerCase().slice(prefix.length), prefix, decision.grant!);
+        }
+        case "trigger":
+            return queueTrigger(message, decision.command!, "message");
+    }
+}
+
+async function queueTrigger(message: DiscordMessage, command: ActuatorCommand, event: TriggerEvent, deferred = false) {
+    if (getCurrentPauseReason()) {
+        if (pluginSettings.store.pausedTriggers !== "defer") return;
+        deferredTriggers.push({ message, command, event });
+        if (deferredTriggers.length > maxDeferredTriggers) deferredTriggers.shift();
+        return;
+    }
+
+    // Deferred triggers are only charged once they play, nobody needs to be told off for them by then, or for typing and reacting
+    const feedback = !deferred && (event === "message" || event === "edit") && pluginSettings.store.throttleFeedback;
+    if (!checkLimits("trigger", message, getCost(command.strength, command.duration), feedback)) return;
+
+    if (pluginSettings.store.heatMode) {
+        addHeat(command.strength * pluginSettings.store.heatGain, getHeatOptions(), getCommandDevices(getDevices(), command).map(getDeviceKey));
+        startHeatLoop();
+    } else if (!await addToVibrateQueue(command)) return;
+
+    recordActivity({
+        kind: "trigger",
+        description: `${event === "message" ? "" : `${event} `}${command.triggers?.join(", ")}: ${Math.round(command.strength * 100)}% for ${(command.duration / 1000).toFixed(1)}s${deferred ? " (deferred)" : ""}`,
+        ...getMessageActivity(message),
+        strength: command.strength,
+        duration: command.duration,
+    });
+
+    // Reactions and typing have no message of the sender to respond to
+    if (event === "message" || event === "edit") await sendFeedback(message, command);
+}
+
+/**
+ * Reacts or replies to the message that triggered a vibration, depending on the settings for DMs or servers
+ */
+async function sendFeedback(message: DiscordMessage, command: ActuatorCommand) {
+    const mode: FeedbackMode = (message.guild_id ? pluginSettings.store.guildFeedback : pluginSettings.store.dmFeedback) ?? "none";
+    if (mode === "none" || !isConnected()) return;
+
+    // Only tell them something happened if a device actually responds
+    const devices = pluginSettings.store.heatMode
+        ? getDevices().filter(device => getDeviceConfig(device).enabled)
+        : getCommandDevices(getDevices(), command);
+    if (devices.length === 0 || !shouldSendFeedback(message.channel_id, pluginSettings.store.feedbackCooldown * 1000)) return;
+
+    try {
+        if (mode === "reaction") {
+            await RestAPI.put({ url: Constants.Endpoints.REACTION(message.channel_id, message.id, encodeURIComponent(pluginSettings.store.feedbackEmoji.trim()), "@me") });
+        } else {
+            await sendMessage(message.channel_id, {
+                content: formatFeedback(pluginSettings.store.feedbackTemplate, {
+                    user: message.author.username,
+                    strength: command.strength * 100,
+                    duration: command.duration / 1000,
+                    devices: devices.map(getDeviceLabel),
+                    triggers: command.triggers ?? [],
+                })
+            }, false, { messageReference: { channel_id: message.channel_id, message_id: message.id, guild_id: message.guild_id } });
+        }
+    } catch (error) {
+        console.error("Failed to send feedback:", error);
+    }
+}
+
+function rememberContent(message: DiscordMessage) {
+    messageContents.set(message.id, message.content);
+    // Maps keep insertion order, so the first key is the oldest message
+    if (messageContents.size > 500) messageContents.delete(messageContents.keys().next().value!);
+}
+
+async function handleMessageUpdate(message: DiscordMessage) {
+    if (!pluginSettings.store.editTriggers || !message.author || typeof message.content !== "string") return;
+
+    // Messages from before Discord was started aren't known, so there is no way to tell what is new in them
+    const previousContent = messageContents.get(message.id);
+    rememberContent(message);
+    if (previousContent === undefined || previousContent === message.content) return;
+
+    const decision = decideMessage(message, { event: "edit", previousContent });
+    if (decision.action === "trigger") await queueTrigger(message, decision.command!, "edit");
+}
+
+async function handleReaction(payload: FluxReactionAdd) {
+    if (!pluginSettings.store.reactionTriggers || payload.optimistic) return;
+
+    const { UserStore, ChannelStore, MessageStore } = Vencord.Webpack.Common;
+    const currentUser = UserStore.getCurrentUser();
+    const messageAuthorId = payload.messageAuthorId ?? MessageStore.getMessage(payload.channelId, payload.messageId)?.author.id;
+    if (payload.userId === currentUser.id || messageAuthorId !== currentUser.id) return;
+
+    const author: DiscordUser | undefined = UserStore.getUser(payload.userId);
+    if (!author) return;
+
+    const emoji = payload.emoji.name;
+    // Without a word list this only parses the rules, logging them and using none if they are invalid
+    const rules = buildRules(pluginSettings.store.reactionRules, undefined, DEFAULT_TRIGGER_RULE);
+    const message = {
+        id: payload.messageId,
+        content: emoji,
+        author,
+        channel_id: payload.channelId,
+        guild_id: ChannelStore.getChannel(payload.channelId)?.guild_id ?? undefined,
+    } as DiscordMessage;
+
+    const decision = decideMessage(message, { event: "reaction", triggerRules: rules.length ? rules : [{ ...DEFAULT_TRIGGER_RULE, word: emoji }] });
+    if (decision.action === "trigger") await queueTrigger(message, decision.command!, "reaction");
+}
+
+async function handleTyping(payload: FluxTypingStart) {
+    if (!pluginSettings.store.typingTriggers) return;
+
+    const { UserStore, ChannelStore } = Vencord.Webpack.Common;
+    const channel = ChannelStore.getChannel(payload.channelId);
+    const author: DiscordUser | undefined = UserStore.getUser(payload.userId);
+    if (!channel || channel.guild_id || !author || author.id === UserStore.getCurrentUser().id) return;
+
+    // Discord repeats the typing event every few seconds while someone types, only the start counts
+    const now = Date.now();
+    for (const [userId, time] of lastTypingEvents) {
+        if (now - time >= typingSessionGap) lastTypingEvents.delete(userId);
+    }
+    const lastTyping = lastTypingEvents.get(author.id) ?? 0;
+    lastTypingEvents.set(author.id, now);
+    if (now - lastTyping < typingSessionGap) return;
+
+    const message = { id: `typing-${Date.now()}`, content: "typing", author, channel_id: channel.id } as DiscordMessage;
+    const decision = decideMessage(message, {
+        event: "typing",
+        triggerRules: [{ word: "typing", strength: pluginSettings.store.typingStrength, duration: pluginSettings.store.typingDuration * 1000, stacking: "max" }]
+    });
+    if (decision.action === "trigger") await queueTrigger(message, decision.command!, "typing");
+}
+
+function getMessageScore(message: DiscordMessage, normalizedContent: string, matchedTriggers: TriggerRule[], matchOptions: MatchOptions) {
+    let model;
+    try {
+        model = parseScoringModel(pluginSettings.store.scoringModel);
+    } catch (error) {
+        console.error(error);
+        model = {};
+    }
+
+    const currentUserId = Vencord.Webpack.Common.UserStore.getCurrentUser().id;
+    return scoreMessage(model, {
+        content: message.content,
+        isReply: message.referenced_message?.author.id === currentUserId,
+        isPing: !!message.mentions?.some(mention => mention.id === currentUserId),
+        repeatedMatches: matchedTriggers.reduce((total, rule) => total + Math.max(countMatches(normalizedContent, rule.word, matchOptions) - 1, 0), 0),
+    });
+}
+
+/**
+ * Decides what a message should do without doing it, explaining every step on the way
+ * so /simulate can show why a message did or didn't trigger
+ */
+function decideMessage(message: DiscordMessage, options: DecisionOptions = {}): MessageDecision {
+    const steps: string[] = [];
+    const ignore = (reason: string): MessageDecision => ({ action: "ignore", steps: [...steps, reason] });
+    const event = options.event ?? "message";
+
+    const { directControlCommandPrefix, emergencyStopKeyword } = pluginSettings.store;
+    if (event === "message" && emergencyStopKeyword && message.content.trim().toLowerCase() === `${directControlCommandPrefix}${emergencyStopKeyword}`.toLowerCase()) {
+        steps.push("The message is the emergency stop keyword, which anyone can use");
+        return { action: "emergencyStop", steps };
+    }
+
+    if (emergencyStopped) return ignore("Everything is ignored until you use /rearm after the emergency stop");
+
     const currentUser = Vencord.Webpack.Common.UserStore.getCurrentUser();
-    let intensity = 0;
-    let length = 0;
-    let triggered = false;
-    let isTargeted = false;
+    const grant: Grant | undefined = message.author.id === currentUser.id
+        ? { userId: currentUser.id, tier: "full", permanent: true }
+        : getActiveGrant(message.author.id, message.channel_id, pluginSettings.store.directControlAllowedUsers);
+
+    if (grant) steps.push(`The author has a grant: ${describeGrant(grant)}`);
 
-    if (!message.guild_id) console.log(message);
+    const content = message.content.toLowerCase();
+
+    if (event === "message" && pluginSettings.store.allowDirectUserControl && grant && content.startsWith(directControlCommandPrefix)) {
+        steps.push(`The message starts with the command prefix ${directControlCommandPrefix}, so it is a direct control command`);
+        return { action: "directControl", steps, grant };
+    }
+
+    if (message.author.id === currentUser.id) return ignore("Your own messages don't trigger anything");
+    if (message.author.bot) return ignore("Messages from bots don't trigger anything");
+
+    const matchOptions = getMatchOptions();
+    const normalizedContent = normalizeText(message.content, matchOptions);
+    const targetWords = splitWordList(pluginSettings.store.targetWords);
+
+    // Users granted with /grant don't need to target you and skip the black/whitelist, the direct control users setting only allows commands
+    const isGranted = pluginSettings.store.allowDirectUserControl && !!grant && !grant.permanent && hasTier(grant, "triggers");
+    const targetWord = [currentUser.username, ...targetWords].find(word => countMatches(normalizedContent, word, matchOptions) > 0);
+
+    if (isGranted) steps.push("Targeted: the author has a grant");
+    else if (message.mentions?.some(mention => mention.id === currentUser.id)) steps.push("Targeted: the message pings you");
+    else if (targetWord) steps.push(`Targeted: the message contains the target word "${targetWord}"`);
+    else if (message.referenced_message?.author.id === currentUser.id) steps.push("Targeted: the message replies to you");
+    else if (event === "reaction") steps.push("Targeted: the reaction is on your message");
+    else if (!message.guild_id) steps.push("Targeted: the message is in a DM");
+    else return ignore("Not targeted: the message doesn't ping you, reply to you or contain your username or a target word, and isn't in a DM");
+
+    const { altOptions } = pluginSettings.store;
+    if (altOptions === "dmOnly" && message.guild_id)
+        return ignore("The alt option only allows DMs");
+    else if (altOptions === "currentChannelOnly" && message.channel_id !== getCurrentChannel().id)
+        return ignore("The alt option only allows the channel you have open");
+    else if (altOptions === "currentGuildOnly" && (!message.guild_id || message.guild_id !== getCurrentGuild()?.id))
+        return ignore("The alt option only allows the server you have open");
+    else if (altOptions !== "none")
+        steps.push(`The alt option (${altOptions}) allows the message`);
 
     const listedUsers = pluginSettings.store.listedUsers?.split(",");
     const listedChannels = pluginSettings.store.listedChannels?.split(",");
     const listedGuilds = pluginSettings.store.listedGuilds?.split(",");
 
-    const directControlEnabled: boolean = pluginSettings.store.allowDirectUserControl;
-    const directControlUsers: string[] = pluginSettings.store.directControlAllowedUsers?.split(" ") ?? [];
-    const { directControlCommandPrefix } = pluginSettings.store;
+    const isUserListed = listedUsers?.includes(message.author.id);
+    const isChannelListed = listedChannels?.includes(message.channel_id);
+    const isGuildListed = message.guild_id && listedGuilds?.includes(message.guild_id);
+    const listedBy = isUserListed ? "the author" : isChannelListed ? "the channel" : isGuildListed ? "the server" : undefined;
 
-    const content = message.content.toLowerCase();
+    const isWhitelist = pluginSettings.store.switchBlacklistToWhitelist;
+    const shouldIncludeMessage = isWhitelist ? !!listedBy : !listedBy;
 
-    if (directControlEnabled && (message.author.id === currentUser.id || directControlUsers.length > 0) && content.startsWith(directControlCommandPrefix)) {
-        const command = content.replace(directControlCommandPrefix, "");
-        const commandInfo = command.split(" "); // vibrate 1 20 // vibrate 20
+    if (isGranted && !shouldIncludeMessage)
+        steps.push(`The ${isWhitelist ? "whitelist" : "blacklist"} would block the message, but the author has a grant`);
+    else if (!shouldIncludeMessage)
+        return ignore(isWhitelist ? "The whitelist doesn't contain the author, the channel or the server" : `The blacklist contains ${listedBy}`);
+    else if (listedBy)
+        steps.push(`The whitelist contains ${listedBy}`);
 
-        if (message.author.id !== currentUser.id && !directControlUsers.includes(message.author.id)) return;
+    const triggerRules = options.triggerRules ?? buildRules(pluginSettings.store.triggerRules, pluginSettings.store.triggerWords, DEFAULT_TRIGGER_RULE);
+    if (triggerRules.length === 0)
+        return ignore("There are no trigger words");
 
-        if (!client || !client.connected) {
-            return sendMessage(message.channel_id, {
-                content: "My client isn't connected right now"
-            });
-        }
+    const addOnRules = options.triggerRules ? [] : buildRules(pluginSettings.store.addOnRules, pluginSettings.store.addOnWords, DEFAULT_ADD_ON_RULE);
+    const previousContent = options.previousContent !== undefined ? normalizeText(options.previousContent, matchOptions) : undefined;
 
-        switch (commandInfo[0]) {
-            case "v":
-            case "vibrate": {
-                if (commandInfo.length < 2 || commandInfo.length > 3) {
-                    return sendMessage(message.channel_id, {
-                        content: `Incorrect arguments provided. \n**Correct usages**\nAll devices: ${directControlCommandPrefix}vibrate 20\nSpecific device: ${directControlCommandPrefix}vibrate 1 20\narguments: vibrate <deviceId?> <amount>`
-                    });
-                }
+    // Typing only counts in DMs, so the DM multipliers would always change the typing strength and duration
+    const contextModifiers = event === "typing" ? {} : {
+        dm: { strength: pluginSettings.store.dmStrengthMultiplier, duration: pluginSettings.store.dmDurationMultiplier }
+    };
+    const result = evaluateRules(normalizedContent, triggerRules, addOnRules, message.guild_id ? "guild" : "dm", contextModifiers, (text, word) => {
+        // Edits only count the matches that weren't there before
+        const count = countMatches(text, word, matchOptions) - (previousContent !== undefined ? countMatches(previousContent, word, matchOptions) : 0);
+        return Math.max(pluginSettings.store.countRepeatedWords ? count : Math.min(count, 1), 0);
+    });
 
-                if (commandInfo.length === 3) {
-                    const deviceId = Number(commandInfo[1]);
-                    if (isNaN(deviceId) || client.devices.length > deviceId || deviceId < 1) return sendMessage(message.channel_id, {
-                        content: "Invalid device ID provided"
-                    });
+    if (!result.triggered) return ignore(previousContent !== undefined ? "The edit didn't add any trigger words" : options.triggerRules ? `No rule matches ${event === "reaction" ? `the reaction ${message.content}` : event}` : "No trigger words matched");
 
-                    let vibrationStrength = Number(commandInfo[2]);
-                    if (isNaN(vibrationStrength) || vibrationStrength < 0) return sendMessage(message.channel_id, {
-                        content: "Invalid vibration strength"
-                    });
+    steps.push(`Trigger words: ${result.matchedTriggers.map(rule => rule.word).join(", ")}`);
+    steps.push(`Add-on words: ${result.matchedAddOns.length ? result.matchedAddOns.map(rule => rule.word).join(", ") : "None"}`);
 
-                    vibrationStrength > 100 ? vibrationStrength = 100 : vibrationStrength;
+    let { strength: intensity, duration: length } = result;
 
-                    return client.devices[deviceId - 1].vibrate((vibrationStrength * (pluginSettings.store.maxVibrationIntensity / 100) / 100));
-                }
+    if (pluginSettings.store.messageScoring) {
+        const score = getMessageScore(message, normalizedContent, result.matchedTriggers, matchOptions);
+        steps.push(`Message features: ${formatBreakdown(score.breakdown)}`);
+        intensity += score.strength;
+        length += score.duration;
+    }
+
+    const pattern = result.pattern ?? (pluginSettings.store.rampUpAndDown ? "ramp" : "constant");
+
+    if (pattern === "ramp")
+        length += 1250;
+
+    intensity > 100 ? intensity = 100 : intensity;
+    const strength = intensity * (pluginSettings.store.maxVibrationIntensity / 100) / 100;
+
+    steps.push(`Result: ${Math.round(strength * 100)}% for ${(length / 1000).toFixed(2)} seconds using the ${pattern} pattern${result.devices?.length ? ` on ${result.devices.join(", ")}` : ""}`);
+
+    const pauseReason = getCurrentPauseReason();
+    if (pauseReason) steps.push(`Triggers are paused because ${pauseReason}, so it would be ${pluginSettings.store.pausedTriggers === "defer" ? "played once they are resumed" : "ignored"}`);
+    if (pluginSettings.store.heatMode) steps.push(`Heat mode is on, so it adds ${Math.round(strength * pluginSettings.store.heatGain * 100)}% to the heat level instead of being queued`);
+
+    return {
+        action: "trigger",
+        steps,
+        grant,
+        command: { strength, duration: length, devices: result.devices?.map(String), triggers: result.matchedTriggers.map(rule => rule.word), pattern: result.pattern, actuators: result.actuators, motors: result.motors, priority: QueuePriority.Trigger, source: message.author.username }
+    };
+}
+
+/**
+ * Checks the cooldowns and budget for the author of a message, telling them if they are throttled.
+ * Your own messages are never limited
+ */
+export function checkLimits(kind: LimitKind, message: DiscordMessage, cost: number, feedback: boolean): boolean {
+    if (message.author.id === Vencord.Webpack.Common.UserStore.getCurrentUser().id) return true;
+
+    const result = checkRateLimit(kind, message.author.id, cost, {
+        userCooldown: pluginSettings.store.userCooldown * 1000,
+        globalCooldown: pluginSettings.store.globalCooldown * 1000,
+        budget: pluginSettings.store.userBudget,
+        budgetWindow: pluginSettings.store.budgetWindow * 60000,
+    });
+
+    if (!result.allowed && feedback && (kind === "command" || shouldNotifyThrottled(message.author.id))) {
+        sendMessage(message.channel_id, {
+            content: `Slow down ${message.author.username}! ${result.reason}`
+        });
+    }
+
+    return result.allowed;
+}
+
+/**
+ * Vibrate commands without a duration would otherwise keep going until the next command
+ */
+export function startDirectVibrateTimeout() {
+    if (directVibrateTimeout) clearTimeout(directVibrateTimeout);
+    if (pluginSettings.store.maxCommandDuration <= 0) return;
+
+    directVibrateTimeout = setTimeout(() => {
+        directVibrateTimeout = null;
+        stopDevices(getDevices());
+    }, pluginSettings.store.maxCommandDuration * 1000);
+}
+
+/**
+ * Returns why the active schedule can't be used, triggers are always active until it is fixed
+ */
+export function getScheduleError(): string | undefined {
+    const valid = validateSchedule(pluginSettings.store.activeSchedule ?? "");
+    return valid === true ? undefined : valid;
+}
+
+/**
+ * Returns why triggers and remote control from others are paused right now, or undefined if they aren't
+ */
+export function getCurrentPauseReason(): string | undefined {
+    const { PresenceStore, SelectedChannelStore, UserStore } = Vencord.Webpack.Common;
+
+    let schedule;
+    try {
+        schedule = parseSchedule(pluginSettings.store.activeSchedule);
+    } catch (error) {
+        console.error("Ignoring the active schedule:", error);
+    }
+
+    return getPauseReason({
+        pausedUntil,
+        schedule,
+        pauseOnDnd: pluginSettings.store.pauseOnDnd,
+        pauseWhenInvisible: pluginSettings.store.pauseWhenInvisible,
+        pauseInVoice: pluginSettings.store.pauseInVoice,
+    }, {
+        status: PresenceStore.getStatus(UserStore.getCurrentUser().id),
+        inVoice: !!SelectedChannelStore.getVoiceChannelId(),
+    });
+}
+
+/**
+ * Plays the deferred triggers once triggers aren't paused anymore
+ */
+async function checkResumed() {
+    if (pausedUntil !== null && pausedUntil <= Date.now()) pausedUntil = null;
+
+    const pauseReason = getCurrentPauseReason();
+    const isPaused = !!pauseReason;
+    const resumed = wasPaused && !isPaused;
+    if (isPaused && !wasPaused) {
+        recordActivity({ kind: "pause", description: `Paused because ${pauseReason}` });
+        stopAll().catch(console.error);
+    }
+    wasPaused = isPaused;
+    if (isPaused) return;
+
+    const deferred = deferredTriggers;
+    deferredTriggers = [];
+
+    if (resumed) {
+        recordActivity({ kind: "pause", description: "Resumed" });
+        showNotification({
+            title: "Triggers resumed",
+            body: deferred.length ? `Playing ${deferred.length} trigger(s) that came in while paused` : "Triggers and remote control are allowed again",
+            permanent: false,
+            noPersist: false,
+        });
+    }
+
+    for (const { message, command, event } of deferred) {
+        // They would have expired while waiting otherwise
+        command.queuedAt = undefined;
+        await queueTrigger(message, command, event, true);
+    }
+}
+
+function getMatchOptions(): MatchOptions {
+    return {
+        mode: (pluginSettings.store.matchMode ?? "substring") as MatchMode,
+        plurals: pluginSettings.store.matchPlurals,
+        squashRepeats: pluginSettings.store.ignoreRepeatedLetters,
+    };
+}
+
+async function checkExpiredGrants() {
+    for (const grant of await removeExpiredGrants()) {
+        const user = Vencord.Webpack.Common.UserStore.getUser(grant.userId);
+        showNotification({
+            title: "Grant expired",
+            body: `${user?.username ?? grant.userId} can no longer control your toys`,
+            permanent: false,
+            noPersist: false,
+        });
+    }
+}
+
+async function emergencyStop(reason: string, message?: DiscordMessage) {
+    emergencyStopped = true;
+    deferredTriggers = [];
+    stopHeat();
+    recordActivity({ kind: "emergencyStop", description: reason, ...(message && getMessageActivity(message)) });
+    vibrateQueue = [];
+    if (directVibrateTimeout) clearTimeout(directVibrateTimeout);
+    playbackController?.abort();
+
+    // Every device and server is stopped on its own, so one that fails doesn't keep the others going
+    const results = await Promise.allSettled([
+        ...getDevices().map(device => stopDevices([device])),
+        ...getConnectedClients().map(client => client.stopAllDevices()),
+    ]);
+    for (const result of results) {
+        if (result.status === "rejected") console.error(result.reason);
+    }
 
-                let vibrationStrength = Number(commandInfo[1]);
-                if (isNaN(vibrationStrength) || vibrationStrength < 0) return sendMessage(message.channel_id, {
-                    content: "Invalid vibration strength"
-                });
+    showNotification({
+        title: "Emergency stop",
+        body: `${reason}. Triggers and remote control are locked until you use /rearm`,
+        permanent: false,
+        noPersist: false,
+    });
+}
 
-                if (vibrationStrength > pluginSettings.store.maxVibrationIntensity) vibrationStrength = pluginSettings.store.maxVibrationIntensity;
+function handleKeyDown(event: KeyboardEvent) {
+    const { emergencyStopHotkey } = pluginSettings.store;
+    if (!emergencyStopHotkey) return;
 
-                return client.devices.forEach(device => {
-                    device.vibrate(vibrationStrength / 100);
-                });
-            }
-            case "durationVibration":
-            case "vibrationDuration":
-            case "vd":
-                if (commandInfo.length < 3 || commandInfo.length > 4) {
-                    return sendMessage(message.channel_id, {
-                        content: `Incorrect arguments provided. \n**Correct usages**\nAll devices: ${directControlCommandPrefix}vibrate 20 2000\nSpecific device: ${directControlCommandPrefix}vibrate 1 20 2000\narguments: vibrate <deviceId?> <amount> <timeInMilliseconds>`
-                    });
-                }
+    const hotkey = parseHotkey(emergencyStopHotkey);
+    if (!hotkey.key || event.key.toLowerCase() !== hotkey.key) return;
+    if (event.ctrlKey !== hotkey.ctrl || event.shiftKey !== hotkey.shift || event.altKey !== hotkey.alt || event.metaKey !== hotkey.meta) return;
 
-                if (commandInfo.length === 4) {
-                    const deviceId = Number(commandInfo[1]);
-                    if (isNaN(deviceId) || client.devices.length > deviceId || deviceId < 1) return sendMessage(message.channel_id, {
-                        content: "Invalid device ID provided"
-                    });
+    event.preventDefault();
+    emergencyStop("You pressed the emergency stop shortcut");
+}
 
-                    let vibrationStrength = Number(commandInfo[2]);
-                    if (isNaN(vibrationStrength) || vibrationStrength < 0) return sendMessage(message.channel_id, {
-                        content: "Invalid vibration strength"
-                    });
+function getConnection(name: string): ServerConnection {
+    let connection = connections.get(name);
+    if (!connection) connections.set(name, connection = { name, client: null, state: "disconnected", reconnectTimeout: null, reconnectAttempt: 0 });
+    return connection;
+}
 
-                    const durationTime = Number(commandInfo[3]);
-                    if (isNaN(vibrationStrength) || vibrationStrength < 0) return sendMessage(message.channel_id, {
-                        content: "Invalid duration time"
-                    });
+function getConnectedClients(): ButtplugClient[] {
+    return [...connections.values()].flatMap(connection => connection.client?.connected ? [connection.client] : []);
+}
 
-                    vibrationStrength > 100 ? vibrationStrength = 100 : vibrationStrength;
+/**
+ * Returns the devices of every connected server as one pool
+ */
+export function getDevices(): ButtplugClientDevice[] {
+    return getConnectedClients().flatMap(client => client.devices);
+}
 
-                    return addToVibrateQueue({ strength: (vibrationStrength * (pluginSettings.store.maxVibrationIntensity / 100) / 100), duration: durationTime, deviceId: deviceId - 1 });
-                }
+export function isConnected() {
+    return getConnectedClients().length > 0;
+}
 
-                let vibrationStrength = Number(commandInfo[1]);
-                if (isNaN(vibrationStrength) || vibrationStrength < 0) return sendMessage(message.channel_id, {
-                    content: "Invalid vibration strength"
-                });
+/**
+ * Returns the best state of all servers, connected as soon as one of them is
+ */
+export function getConnectionState(): ConnectionState {
+    const states = [...connections.values()].map(connection => connection.state);
+    return (["connected", "connecting", "retrying"] as const).find(state => states.includes(state)) ?? "disconnected";
+}
 
-                const durationTime = Number(commandInfo[2]);
-                if (isNaN(vibrationStrength) || vibrationStrength < 0) return sendMessage(message.channel_id, {
-                    content: "Invalid duration time"
-                });
+export function getServerStates(): { name: string; state: ConnectionState; }[] {
+    return [...connections.values()].filter(connection => connection.name === MAIN_SERVER || connection.state !== "disconnected").map(({ name, state }) => ({ name, state }));
+}
 
-                vibrationStrength > 100 ? vibrationStrength = 100 : vibrationStrength;
+function getServerProfiles(): ServerProfile[] {
+    try {
+        return parseServerProfiles(pluginSettings.store.connectionProfiles);
+    } catch (error) {
+        console.error(error);
+        return [];
+    }
+}
 
-                return addToVibrateQueue({ strength: (vibrationStrength * (pluginSettings.store.maxVibrationIntensity / 100) / 100), duration: durationTime });
+/**
+ * Returns the name of the main server or a connection profile as it was written in the settings
+ */
+function resolveServerName(name: string): string | undefined {
+    if (name.trim().toLowerCase() === MAIN_SERVER) return MAIN_SERVER;
+    return findServerProfile(getServerProfiles(), name)?.name;
+}
 
-            case "d":
-            case "devices": {
-                const deviceInfo: string[] = [];
+function getAutoConnectServers(): string[] {
+    return [MAIN_SERVER, ...getServerProfiles().filter(profile => profile.autoConnect).map(profile => profile.name)];
+}
 
-                for (let i = 0; i < client.devices.length; i++) {
-                    deviceInfo.push(`**Name:** ${client.devices[i].name}, **ID:** ${i + 1}, **Battery:** ${client.devices[i].hasBattery ? `${await client.devices[i].battery() * 100}%` : "No battery"}`);
-                }
+function describeServer(name: string) {
+    return name === MAIN_SERVER ? "intiface" : `intiface (${name})`;
+}
 
-                return sendMessage(message.channel_id, {
-                    content: `**Connected devices:** \n${deviceInfo.join("\n")}`
-                });
-            }
-        }
+export function isScanning() {
+    return scanningRequested;
+}
 
-        return;
-    }
+/**
+ * Starts scanning for devices on every server, with autoStop it stops by itself after 30 seconds and calls onFinished
+ */
+export async function startScanning(autoStop: boolean, onFinished?: () => void) {
+    const clients = getConnectedClients();
+    if (clients.length === 0) return;
+
+    await Promise.all(clients.map(client => client.startScanning()));
+    scanningRequested = true;
+    if (scanTimeout) clearTimeout(scanTimeout);
+    scanTimeout = null;
+
+    if (autoStop)
+        scanTimeout = setTimeout(async () => {
+            await stopScanning();
+            onFinished?.();
+        }, 30000);
+}
 
-    if (message.author.id === currentUser.id || message.author.bot)
-        return;
+export async function stopScanning() {
+    scanningRequested = false;
+    if (scanTimeout) clearTimeout(scanTimeout);
+    scanTimeout = null;
+    await Promise.all(getConnectedClients().map(client => client.stopScanning()));
+}
 
-    const targetWords = pluginSettings.store.targetWords?.toLowerCase().split(",");
+function clearReconnect(connection: ServerConnection) {
+    if (connection.reconnectTimeout) clearTimeout(connection.reconnectTimeout);
+    connection.reconnectTimeout = null;
+}
 
-    if (message.mentions?.some(mention => mention.id === currentUser.id) || content.includes(currentUser.username) || message.referenced_message?.author.id === currentUser.id || !message.guild_id || targetWords?.some(targetWord => content.includes(targetWord)))
-        isTargeted = true;
+/**
+ * Stops everything that depends on the client of a server, without notifying anyone
+ */
+async function teardownClient(connection: ServerConnection) {
+    const oldClient = connection.client;
+    connection.client = null;
 
-    if (!isTargeted)
-        return;
+    // The queue and the monitors are shared by all servers, so they only stop once none is left
+    if (!isConnected()) {
+        vibrateQueue = [];
+        playbackController?.abort();
+        if (directVibrateTimeout) clearTimeout(directVibrateTimeout);
+        if (batteryIntervalId) clearInterval(batteryIntervalId);
+        batteryIntervalId = null;
+        if (sensorIntervalId) clearInterval(sensorIntervalId);
+        sensorIntervalId = null;
+    }
 
-    if (pluginSettings.store.altOptions === "dmOnly" && message.guild_id)
-        return;
-    else if (pluginSettings.store.altOptions === "currentChannelOnly" && message.channel_id !== getCurrentChannel().id)
-        return;
-    else if (pluginSettings.store.altOptions === "currentGuildOnly" && (!message.guild_id || message.guild_id !== getCurrentGuild()?.id))
-        return;
+    if (!oldClient) return;
 
-    // L this is such a mess :P (someone help me >.<)
+    // Remove the listeners first so our own disconnect isn't treated as a lost connection
+    oldClient.removeAllListeners();
+    if (oldClient.connected) await oldClient.disconnect();
+}
 
-    const isUserListed = listedUsers?.includes(message.author.id);
-    const isChannelListed = listedChannels?.includes(message.channel_id);
-    const isGuildListed = message.guild_id && listedGuilds?.includes(message.guild_id);
+async function reconnect() {
+    await handleDisconnection(MAIN_SERVER);
+    await handleConnection(MAIN_SERVER);
+}
 
-    const shouldIncludeMessage = pluginSettings.store.switchBlacklistToWhitelist
-        ? isUserListed || isChannelListed || isGuildListed
-        : !isUserListed && !isChannelListed && !isGuildListed;
+/**
+ * Connects to the main server and every connection profile that connects automatically
+ */
+export async function connectAll() {
+    await Promise.all(getAutoConnectServers().map(name => handleConnection(name)));
+}
 
-    if (!shouldIncludeMessage)
-        return;
+/**
+ * Disconnects from servers whose connection profile was removed or now has another URL
+ */
+function disconnectRemovedServers() {
+    const profiles = getServerProfiles();
+    for (const connection of connections.values()) {
+        if (connection.name === MAIN_SERVER || connection.state === "disconnected") continue;
+        const profile = profiles.find(profile => profile.name === connection.name);
+        if (!profile || (connection.client && connectedUrls.get(connection.client) !== profile.url)) handleDisconnection(connection.name);
+    }
+}
 
-    const triggerWords = pluginSettings.store.triggerWords?.toLowerCase().split(",");
-    if (!triggerWords)
-        return;
+/**
+ * Disconnects from one server, or from all of them if no name is given
+ */
+export async function handleDisconnection(name?: string) {
+    for (const connection of name ? [getConnection(name)] : [...connections.values()]) {
+        if (connection.state !== "disconnected") recordActivity({ kind: "connection", description: `Disconnected${connection.name === MAIN_SERVER ? "" : ` from ${connection.name}`}` });
+        connection.state = "disconnected";
+        clearReconnect(connection);
+        connection.reconnectAttempt = 0;
 
-    const addOnWords = pluginSettings.store.addOnWords?.toLowerCase().split(",");
+        try {
+            await teardownClient(connection);
 
-    triggerWords.forEach(triggerWord => {
-        if (content.includes(triggerWord)) {
-            triggered = true;
-            intensity += 19;
-            length += 2000;
+            showNotification({
+                title: `Disconnected from ${describeServer(connection.name)}`,
+                body: `You are now disconnected from ${describeServer(connection.name)}`,
+                permanent: false,
+                noPersist: false,
+            });
+        } catch (error) {
+            console.error(error);
         }
-    });
+    }
 
-    if (triggered) {
-        addOnWords && addOnWords.forEach(addOnWord => {
-            if (content.includes(addOnWord)) {
-                intensity += 7.5;
-                length += Math.floor(Math.random() * (30 - 5 + 1) + 5);
-            }
-        });
+    if (!isConnected()) {
+        scanningRequested = false;
+        if (scanTimeout) clearTimeout(scanTimeout);
+        scanTimeout = null;
+    }
+}
 
-        if (!message.guild_id) {
-            intensity *= 1.35;
-            length *= 2;
-        }
+function scheduleReconnect(connection: ServerConnection) {
+    clearReconnect(connection);
 
-        if (pluginSettings.store.rampUpAndDown)
-            length += 1250;
+    const delay = Math.min(1000 * 2 ** connection.reconnectAttempt, pluginSettings.store.maxReconnectDelay * 1000);
+    connection.state = "retrying";
 
-        intensity > 100 ? intensity = 100 : intensity;
-        addToVibrateQueue({ strength: (intensity * (pluginSettings.store.maxVibrationIntensity / 100) / 100), duration: length });
+    // Only notify for the first attempt, otherwise a stopped server means a notification every minute
+    if (connection.reconnectAttempt === 0) {
+        showNotification({
+            title: `Reconnecting to ${describeServer(connection.name)}`,
+            body: `Could not reach ${describeServer(connection.name)}, retrying in the background. Use /disconnect to stop trying`,
+            permanent: false,
+            noPersist: false,
+        });
     }
+
+    connection.reconnectAttempt++;
+    connection.reconnectTimeout = setTimeout(() => {
+        connection.reconnectTimeout = null;
+        handleConnection(connection.name);
+    }, delay);
 }
 
-async function handleDisconnection() {
-    try {
-        vibrateQueue = [];
-        if (client && client.connected) await client.disconnect();
-        client = null;
-        if (batteryIntervalId) clearInterval(batteryIntervalId);
+function handleConnectionLost(connection: ServerConnection) {
+    console.warn(`Lost connection to ${describeServer(connection.name)}`);
+    recordActivity({ kind: "connection", description: `Lost the connection${connection.name === MAIN_SERVER ? "" : ` to ${connection.name}`}` });
+    teardownClient(connection).catch(console.error);
 
+    if (pluginSettings.store.autoReconnect) {
+        scheduleReconnect(connection);
+    } else {
+        connection.state = "disconnected";
         showNotification({
-            title: "Disconnected from intiface",
-            body: "You are now disconnected from intiface",
+            title: `Lost connection to ${describeServer(connection.name)}`,
+            body: `The connection to ${describeServer(connection.name)} was lost, use /connect to reconnect`,
             permanent: false,
             noPersist: false,
         });
-    } catch (error) {
-        console.error(error);
     }
 }
 
-
 export function editMessage(message: PartialDeep<Message>, content: string): Message {
     message.content = content;
     FluxDispatcher.dispatch({ type: "MESSAGE_UPDATE", message });
     return message as Message;
 }
 
-async function handleConnection() {
+/**
+ * Connects to one server, the main one (the websocket URL or the simulation) if no name is given
+ */
+export async function handleConnection(name = MAIN_SERVER) {
+    const connection = getConnection(name);
+    if (connection.state === "connecting" || connection.state === "connected") return;
+
+    const isReconnect = connection.state === "retrying";
+    clearReconnect(connection);
+
+    const isMain = name === MAIN_SERVER;
+    const isSimulation = isMain && pluginSettings.store.connectionMode === "simulation";
+    const url = isMain ? pluginSettings.store.websocketUrl : findServerProfile(getServerProfiles(), name)?.url;
+
     try {
-        if (!pluginSettings.store.websocketUrl) {
+        if (!isSimulation && !url) {
+            connection.state = "disconnected";
             return showNotification({
                 title: "No URL provided for intiface",
-                body: "Please provide a URL in the settings, connecting to intiface disabled",
+                body: isMain ? "Please provide a URL in the settings, connecting to intiface disabled" : `There is no connection profile named "${name}" anymore`,
                 permanent: false,
                 noPersist: false,
             });
         }
 
-        connector = new ButtplugBrowserWebsocketClientConnector(pluginSettings.store.websocketUrl);
-        if (!client)
-            client = new ButtplugClient("Vencord");
+        connection.state = "connecting";
+        await teardownClient(connection);
+
+        const connector = isSimulation
+            ? new SimulatedConnector(parseSimulatedDevices(pluginSettings.store.simulatedDevices))
+            : new ButtplugBrowserWebsocketClientConnector(url!);
+        // A new client every time, so listeners of earlier connections can't stack up
+        const newClient = connection.client = new ButtplugClient("Vencord");
+        if (url) connectedUrls.set(newClient, url);
 
-        client.addListener("deviceadded", async (device: ButtplugClientDevice) => {
-            device.warnedLowBattery = false;
+        newClient.addListener("deviceadded", async (device: ButtplugClientDevice) => {
+            if (!isMain) setDeviceServer(device, name);
+            recordActivity({ kind: "device", description: `${getDeviceLabel(device)} was added` });
+            await checkBattery(device).catch(error => console.error(error));
 
+            const { battery } = getDeviceHealth(device);
             showNotification({
-                title: `Device added (Total devices: ${client?.devices.length})`,
-                body: `A device named "${device.name}" was added ${device.hasBattery && `and has a battery level of ${await device.battery() * 100}%`}`,
+                title: `Device added (Total devices: ${getDevices().length})`,
+                body: `A device named "${getDeviceLabel(device)}" was added${battery !== undefined ? ` and has a battery level of ${formatBattery(battery)}` : ""}`,
                 permanent: false,
                 noPersist: false,
             });
 
-            if (device.vibrateAttributes.length === 0)
+            if (getActuators(device).length === 0)
                 return;
 
             try {
-                await device.vibrate(0.1);
+                await driveDevices([device], 0.1, {});
                 await new Promise(r => setTimeout(r, 500));
-                await device.stop();
+                await stopDevices([device]);
             } catch (error) {
-                console.log(error);
-                if (error instanceof ButtplugDeviceError) {
-                    console.log("got a device error!");
-                }
+                console.error(error);
             }
         });
 
-        client.addListener("deviceremoved", (device: ButtplugClientDevice) => {
+        newClient.addListener("deviceremoved", (device: ButtplugClientDevice) => {
+            recordActivity({ kind: "device", description: `${getDeviceLabel(device)} was removed` });
             showNotification({
                 title: "Device removed",
-                body: `A device named "${device.name}" was removed`,
+                body: `A device named "${getDeviceLabel(device)}" was removed`,
                 permanent: false,
                 noPersist: false,
             });
         });
 
-        await client.connect(connector).then(() => console.log("Buttplug.io connected"));
+        newClient.addListener("disconnect", () => handleConnectionLost(connection));
+
+        await newClient.connect(connector).then(() => console.log(`Buttplug.io connected to ${name}`));
 
-        checkDeviceBattery();
+        // Disconnected (or connected again) while this attempt was still going
+        if (connection.client !== newClient) {
+            newClient.removeAllListeners();
+            await newClient.disconnect();
+            return;
+        }
+
+        connection.state = "connected";
+        connection.reconnectAttempt = 0;
+
+        await loadDeviceConfigs();
+        if (scanningRequested) await newClient.startScanning();
+
+        startBatteryMonitor();
+        startSensorMonitor();
+        recordActivity({ kind: "connection", description: `${isReconnect ? "Reconnected" : "Connected"} to ${isSimulation ? "the simulated devices" : url}${isMain ? "" : ` (${name})`}` });
 
         showNotification({
-            title: "Connected to intiface",
-            body: "You are now connected to intiface",
+            title: `${isReconnect ? "Reconnected" : "Connected"} to ${describeServer(name)}`,
+            body: isSimulation ? "You are now connected to the simulated devices" : `You are now connected to ${describeServer(name)}`,
             permanent: false,
             noPersist: false,
         });
     } catch (error) {
         console.error(error);
+        if (connection.state === "disconnected") return;
+
+        if (pluginSettings.store.autoReconnect) {
+            scheduleReconnect(connection);
+            return;
+        }
+
+        connection.state = "disconnected";
+        recordActivity({ kind: "connection", description: `Failed to connect${isMain ? "" : ` to ${name}`}` });
         showNotification({
-            title: "Failed to connect to intiface",
-            body: "Failed to connect to intiface, please check the console for more information",
+            title: `Failed to connect to ${describeServer(name)}`,
+            body: `Failed to connect to ${describeServer(name)}, please check the console for more information`,
             permanent: false,
             noPersist: false,
         });
     }
 }
 
-async function checkDeviceBattery() {
-    if (!client) return;
-    batteryIntervalId = setInterval(async () => {
-        client!.devices.forEach(async (device: ButtplugClientDevice) => {
-            if (device.hasBattery && !device.warnedLowBattery) {
-                const battery = await device.battery();
-                if (battery < 0.1) {
-                    device.warnedLowBattery = true;
-                    showNotification({
-                        title: "Device battery low",
-                        body: `The battery of device "${device.name}" is low (${battery * 100}%)`,
-                        permanent: false,
-                        noPersist: false,
-                    });
+function startBatteryMonitor() {
+    if (batteryIntervalId) clearInterval(batteryIntervalId);
+    batteryIntervalId = setInterval(checkAllBatteries, batteryCheckRate);
+    checkAllBatteries();
+}
+
+async function checkAllBatteries() {
+    for (const device of getDevices()) {
+        try {
+            await checkBattery(device);
+        } catch (error) {
+            console.error(`Failed to read the battery of ${device.name}:`, error);
+        }
+    }
+}
+
+function getBatteryThresholds(): BatteryThresholds {
+    const { batteryWarningThreshold, batteryCriticalThreshold } = pluginSettings.store;
+    return { warning: batteryWarningThreshold / 100, critical: Math.min(batteryCriticalThreshold, batteryWarningThreshold) / 100 };
+}
+
+/**
+ * Reads the battery of a device, warning about it (and stopping it if wanted) when it got low
+ */
+async function checkBattery(device: ButtplugClientDevice) {
+    if (!device.hasBattery) return;
+
+    const battery = await device.battery();
+    const level = updateBattery(device, battery, getBatteryThresholds());
+    if (!level) return;
+
+    const label = getDeviceLabel(device);
+    const stopped = level === "critical" && pluginSettings.store.stopOnCriticalBattery;
+    if (stopped) await stopDevices([device]);
+
+    recordActivity({ kind: "device", description: `The battery of ${label} is ${level === "critical" ? "critically low" : "low"} (${formatBattery(battery)})${stopped ? ", it was stopped" : ""}` });
+    showNotification({
+        title: level === "critical" ? "Device battery critical" : "Device battery low",
+        body: `The battery of "${label}" is at ${formatBattery(battery)}${stopped ? ", it was stopped and won't be used until it is charged" : ""}`,
+        permanent: false,
+        noPersist: false,
+    });
+}
+
+function startSensorMonitor() {
+    if (sensorIntervalId) clearInterval(sensorIntervalId);
+    sensorIntervalId = null;
+    if (!pluginSettings.store.sensorInput || !isConnected()) return;
+
+    sensorIntervalId = setInterval(pollSensors, pluginSettings.store.sensorPollRate);
+}
+
+/**
+ * Reads the sensors the rules are about. The buttplug client can't subscribe to sensors,
+ * so they are read over and over instead
+ */
+async function pollSensors() {
+    if (isPollingSensors || !isConnected()) return;
+
+    let rules: SensorRule[];
+    try {
+        rules = parseSensorRules(pluginSettings.store.sensorRules);
+    } catch (error) {
+        console.error(error);
+        return;
+    }
+    if (rules.length === 0) return;
+
+    isPollingSensors = true;
+    try {
+        for (const device of getDevices()) {
+            for (const sensor of getSensors(device)) {
+                if (!rules.some(rule => rule.sensor === sensor.kind)) continue;
+
+                // One sensor that can't be read shouldn't keep the rules of all the others from firing
+                try {
+                    const value = await readSensor(device, sensor);
+                    for (const rule of checkSensorReading(rules, device, sensor, value))
+                        await runSensorAction(rule, device, value);
+                } catch (error) {
+                    console.error(`Failed to read the ${sensor.kind} sensor of ${getDeviceLabel(device)}:`, error);
                 }
             }
+        }
+    } finally {
+        isPollingSensors = false;
+    }
+}
+
+async function runSensorAction(rule: SensorRule, device: ButtplugClientDevice, value: number) {
+    const label = getDeviceLabel(device);
+    const description = `The ${rule.sensor} of ${label} read ${Math.round(value)}%`;
+
+    switch (rule.action) {
+        case "emergencyStop":
+            return emergencyStop(description);
+        case "pause":
+            pause(rule.minutes, description);
+            return showNotification({
+                title: "Paused",
+                body: `${description}, triggers are paused ${rule.minutes ? `for ${rule.minutes} minute(s)` : "until you use /resume"}`,
+                permanent: false,
+                noPersist: false,
+            });
+        case "message":
+            recordActivity({ kind: "device", description: `${description}, sent a message`, channelId: rule.channel });
+            return sendMessage(rule.channel!, {
+                content: rule.message!.replace(/\{device\}/g, label).replace(/\{sensor\}/g, rule.sensor).replace(/\{value\}/g, String(Math.round(value)))
+            });
+    }
+}
+
+/**
+ * Pauses triggers and remote control from others, for a number of minutes or until resumed. Returns when it ends
+ */
+function pause(minutes: number | undefined, reason?: string): number {
+    const until = pausedUntil = minutes ? Date.now() + minutes * 60000 : Infinity;
+    wasPaused = true;
+    recordActivity({ kind: "pause", description: `${minutes ? `Paused for ${minutes} minute(s)` : "Paused"}${reason ? ` because ${reason.charAt(0).toLowerCase()}${reason.slice(1)}` : ""}` });
+    // What is playing or waiting was allowed before the pause, it shouldn't keep going during it
+    stopAll().catch(console.error);
+    return until;
+}
+
+function isStoppedForBattery(device: ButtplugClientDevice) {
+    return pluginSettings.store.stopOnCriticalBattery && getDeviceHealth(device).batteryLevel === "critical";
+}
+
+/**
+ * Counts a failed command of a device and reports devices that keep failing. Device errors only affect
+ * that device so they are swallowed, anything else (e.g. a lost connection) is thrown again
+ */
+function handleDeviceError(device: ButtplugClientDevice, error: unknown) {
+    const failures = recordDeviceError(device, error);
+    console.error(`Command for ${device.name} failed:`, error);
+
+    if (failures === deviceErrorWarningCount) {
+        const label = getDeviceLabel(device);
+        recordActivity({ kind: "device", description: `${label} failed ${failures} commands in a row: ${getDeviceHealth(device).lastError}` });
+        showNotification({
+            title: "Device keeps failing",
+            body: `The last ${failures} commands for "${label}" failed, check the console or /devices for more information`,
+            permanent: false,
+            noPersist: false,
         });
-    }, 60000); // 1 minute
+    }
+
+    if (!(error instanceof ButtplugDeviceError)) throw error;
 }
 
-async function addToVibrateQueue(data: VibrateEvent) {
-    vibrateQueue.push(data);
-    if (vibrateQueue.length === 1) {
+/**
+ * Returns whether the command was queued
+ */
+export async function addToVibrateQueue(data: ActuatorCommand) {
+    if (emergencyStopped) return false;
+
+    const { accepted, interrupt } = enqueue(vibrateQueue, data, isProcessingQueue, {
+        policy: (pluginSettings.store.queuePolicy ?? "append") as QueuePolicy,
+        mergeMode: (pluginSettings.store.queueMergeMode ?? "max") as MergeMode,
+        maxLength: pluginSettings.store.maxQueueLength,
+        maxDuration: pluginSettings.store.maxQueueDuration * 1000,
+        priorityInterrupts: pluginSettings.store.queuePriorityInterrupts,
+    });
+
+    if (!accepted) return false;
+    if (interrupt) playbackController?.abort();
+
+    if (!isProcessingQueue) {
         processVibrateQueue();
     }
+
+    return true;
+}
+
+export function getHeatOptions(): HeatOptions {
+    return { decayPerSecond: pluginSettings.store.heatDecay / 100, cap: pluginSettings.store.maxVibrationIntensity / 100 };
+}
+
+function startHeatLoop() {
+    heatIntervalId ??= setInterval(updateHeat, heatTickRate);
+    updateHeat();
+}
+
+/**
+ * Resets the heat level and stops following it, the devices themselves are stopped by the caller
+ */
+function stopHeat() {
+    resetHeat();
+    if (heatIntervalId) clearInterval(heatIntervalId);
+    heatIntervalId = null;
+    lastHeatOutputs = new Map();
+}
+
+async function updateHeat() {
+    const heat = getHeat(getHeatOptions());
+    if (heat <= 0 && heatIntervalId) {
+        clearInterval(heatIntervalId);
+        heatIntervalId = null;
+    }
+
+    // Queued commands (e.g. from remote control) take over the devices while they play
+    if (isProcessingQueue) {
+        lastHeatOutputs = new Map();
+        return;
+    }
+    if (isUpdatingHeat || !isConnected()) return;
+
+    isUpdatingHeat = true;
+    try {
+        for (const device of getDevices()) {
+            const key = getDeviceKey(device);
+            const output = Math.round(getHeat(getHeatOptions(), key) * 100) / 100;
+            if (lastHeatOutputs.get(key) === output) continue;
+
+            lastHeatOutputs.set(key, output);
+            if (output > 0) await driveDevices([device], output, {});
+            else await stopDevices([device]);
+        }
+    } catch (error) {
+        console.error(error);
+    } finally {
+        isUpdatingHeat = false;
+    }
+}
+
+export function recordActivity(entry: Omit<ActivityEntry, "time">) {
+    logActivity(entry, pluginSettings.store.historyRetention * 86400000);
+}
+
+export function getMessageActivity(message: DiscordMessage): Pick<ActivityEntry, "userId" | "username" | "channelId" | "guildId"> {
+    return { userId: message.author.id, username: message.author.username, channelId: message.channel_id, guildId: message.guild_id };
+}
+
+export function isEmergencyStopped() {
+    return emergencyStopped;
+}
+
+/**
+ * Empties the queue and stops everything that is playing, without locking anything like an emergency stop does
+ */
+export async function stopAll() {
+    vibrateQueue = [];
+    stopHeat();
+    playbackController?.abort();
+    if (directVibrateTimeout) clearTimeout(directVibrateTimeout);
+    await stopDevices(getDevices());
+}
+
+export function formatQueue() {
+    if (vibrateQueue.length === 0)
+        return "The queue is empty";
+
+    const current = isProcessingQueue ? vibrateQueue[0] : undefined;
+    const pending = isProcessingQueue ? vibrateQueue.slice(1) : vibrateQueue;
+    const lines = pending.map((command, i) => `${i + 1}. ${describeQueuedCommand(command)}`);
+    if (current) lines.unshift(`**Playing:** ${describeQueuedCommand(current)}`);
+
+    return `**Queue (${pending.length} waiting)**\n${lines.join("\n")}`;
+}
+
+/**
+ * Returns what is playing and waiting in the queue, for the control panel
+ */
+export function getQueueState(): { playing?: string; waiting: string[]; } {
+    const current = isProcessingQueue ? vibrateQueue[0] : undefined;
+    const pending = isProcessingQueue ? vibrateQueue.slice(1) : vibrateQueue;
+    return { playing: current && describeQueuedCommand(current), waiting: pending.map(describeQueuedCommand) };
+}
+
+/**
+ * Drives a single actuator by hand from the control panel, still within the limits of the device
+ */
+export async function driveActuatorManually(device: ButtplugClientDevice, actuator: DeviceActuator, intensity: number) {
+    if (emergencyStopped || !isConnected() || isStoppedForBattery(device)) return;
+
+    try {
+        await driveActuators(device, [actuator], applyDeviceLimits(getDeviceConfig(device), intensity), { clockwise: pluginSettings.store.rotateClockwise });
+        recordDeviceSuccess(device);
+    } catch (error) {
+        handleDeviceError(device, error);
+    }
+}
+
+/**
+ * Schedules a command, direct control commands pass the message they came from to check the sender's limits when it fires
+ */
+export function scheduleCommand(data: Omit<Timer, "id">, message?: DiscordMessage): Timer {
+    const timer = addTimer(data, timer => runTimer(timer, message));
+    recordActivity({ kind: "command", description: `Scheduled #${timer.id}: ${describeTimer(timer)}`, ...(message && getMessageActivity(message)) });
+    return timer;
+}
+
+/**
+ * Queues a scheduled command once it is due, unless vibrating isn't allowed right now
+ */
+async function runTimer(timer: Timer, message?: DiscordMessage) {
+    const { command } = timer;
+    const activity = message && getMessageActivity(message);
+    const isOther = message && message.author.id !== Vencord.Webpack.Common.UserStore.getCurrentUser().id;
+
+    // Others are checked like when they send a command, their grant or direct control may have changed since
+    const grant = isOther ? getActiveGrant(message.author.id, message.channel_id, pluginSettings.store.directControlAllowedUsers) : undefined;
+    let skipReason = emergencyStopped ? "emergency stopped" : getCurrentPauseReason();
+    if (!skipReason && isOther && (!pluginSettings.store.allowDirectUserControl || !grant || !hasTier(grant, "vibrate") || (command.pattern && !hasTier(grant, "full"))))
+        skipReason = "the sender isn't allowed to vibrate anymore";
+    if (skipReason)
+        return recordActivity({ kind: "command", description: `Skipped scheduled #${timer.id} (${skipReason})`, ...activity });
+
+    // The queue stamps the commands it gets, so every repeat gets its own copy
+    const scheduled = { ...command };
+    if (grant?.maxIntensity !== undefined)
+        scheduled.strength = Math.min(scheduled.strength, grant.maxIntensity / 100 * pluginSettings.store.maxVibrationIntensity / 100);
+    if (message && !checkLimits("command", message, getCost(scheduled.strength, scheduled.duration), true))
+        return recordActivity({ kind: "command", description: `Skipped scheduled #${timer.id} (rate limited)`, ...activity });
+
+    if (await addToVibrateQueue(scheduled))
+        recordActivity({ kind: "command", description: `Ran scheduled #${timer.id}: ${describeQueuedCommand(scheduled)}`, strength: scheduled.strength, duration: scheduled.duration, ...activity });
+}
+
+function describeTimer(timer: Timer) {
+    const repeat = timer.every ? `, every ${formatInterval(timer.every)}` : "";
+    return `${describeQueuedCommand(timer.command)} <t:${Math.floor(timer.at / 1000)}:R>${repeat}`;
+}
+
+function formatInterval(ms: number) {
+    const minutes = ms / 60000;
+    return minutes >= 60 ? `${+(minutes / 60).toFixed(2)}h` : minutes >= 1 ? `${+minutes.toFixed(2)}m` : `${ms / 1000}s`;
+}
+
+export function formatTimers() {
+    const timers = getTimers();
+    if (timers.length === 0)
+        return "Nothing is scheduled";
+
+    return `**Scheduled (${timers.length})**\n${timers.map(timer => `#${timer.id}. ${describeTimer(timer)}`).join("\n")}`;
+}
+
+function describeQueuedCommand(command: ActuatorCommand) {
+    const seconds = (command.duration / 1000).toFixed(1);
+    const details = [command.pattern, command.devices?.join(", "), command.source && `from ${command.source}`].filter(Boolean).join(", ");
+    return `${Math.round(command.strength * 100)}% for ${seconds}s${details ? ` (${details})` : ""}`;
 }
 
 async function processVibrateQueue() {
+    removeExpired(vibrateQueue, pluginSettings.store.queueExpiry * 1000, false);
     if (vibrateQueue.length === 0) {
+        isProcessingQueue = false;
         return;
     }
 
+    isProcessingQueue = true;
     const data = vibrateQueue[0];
 
     try {
@@ -639,63 +2794,146 @@ async function processVibrateQueue() {
     } catch (error) {
         console.error("Error in handleVibrate:", error);
     } finally {
-        vibrateQueue.shift();
+        // The queue may have been emptied (e.g. by an emergency stop) while this was playing
+        if (vibrateQueue[0] === data) vibrateQueue.shift();
 
         processVibrateQueue();
     }
 }
 
 
-async function handleVibrate(data: VibrateEvent) {
-    if (!client || !client.devices) {
-        return;
-    }
+/**
+ * Returns the devices a queued command plays on, leaving out devices that don't respond to its triggers
+ */
+function getCommandDevices(devices: ButtplugClientDevice[], command: ActuatorCommand) {
+    return (command.devices?.length ? command.devices.map(reference => findDevice(devices, reference)) : devices)
+        .filter((device): device is ButtplugClientDevice => !!device && respondsToTriggers(getDeviceConfig(device), command.triggers));
+}
 
-    const devices = data.deviceId ? [client.devices[data.deviceId]] : client.devices;
-    if (!pluginSettings.store.rampUpAndDown) {
-        await vibrateDevices(devices, data.strength);
-        await sleep(data.duration);
-        stopDevices(devices);
-    } else {
-        const steps = pluginSettings.store.rampUpAndDownSteps;
-        const rampLength = data.duration * 0.2 / steps;
-        let startIntensity = 0;
-        let endIntensity = data.strength;
-        let stepIntensity = (endIntensity - startIntensity) / steps;
-
-        for (let i = 0; i <= steps; i++) {
-            await vibrateDevices(devices, startIntensity + (stepIntensity * i));
-            await sleep(rampLength);
-        }
+async function handleVibrate(data: ActuatorCommand) {
+    const devices = getCommandDevices(getDevices(), data);
+    const defaultPattern = pluginSettings.store.rampUpAndDown ? "ramp" : "constant";
 
-        await sleep(data.duration * 0.54);
+    let keyframes = buildPattern(data.pattern ?? defaultPattern, data.duration, pluginSettings.store.customPatterns);
+    if (!keyframes) {
+        console.warn(`Unknown pattern "${data.pattern}", using "${defaultPattern}" instead`);
+        keyframes = buildPattern(defaultPattern, data.duration, pluginSettings.store.customPatterns)!;
+    }
 
-        startIntensity = data.strength;
-        endIntensity = 0;
+    const controller = playbackController = new AbortController();
+    await playKeyframes(devices, keyframes, data.strength, { kinds: data.actuators, motors: data.motors }, controller.signal);
+    await stopDevices(devices);
+}
 
-        stepIntensity = (endIntensity - startIntensity) / steps;
+async function playKeyframes(devices: ButtplugClientDevice[], keyframes: Keyframe[], strength: number, selection: ActuatorSelection, signal: AbortSignal) {
+    // Don't send commands faster than devices can keep up with
+    const minimumStepLength = 50;
+    const steps = pluginSettings.store.rampUpAndDownSteps;
+
+    for (let i = 1; i < keyframes.length; i++) {
+        const [startTime, startIntensity] = keyframes[i - 1];
+        const [endTime, endIntensity] = keyframes[i];
+        const segmentLength = endTime - startTime;
+        if (segmentLength <= 0) continue;
+
+        if (startIntensity === endIntensity || steps === 0) {
+            if (signal.aborted) return;
+            await driveDevices(devices, startIntensity * strength, selection);
+            await sleep(segmentLength, signal);
+            continue;
+        }
 
-        for (let i = 0; i <= steps; i++) {
-            await vibrateDevices(devices, startIntensity + (stepIntensity * i));
-            await sleep(rampLength);
+        const segmentSteps = Math.max(1, Math.min(steps, Math.floor(segmentLength / minimumStepLength)));
+        for (let step = 0; step < segmentSteps; step++) {
+            if (signal.aborted) return;
+            await driveDevices(devices, (startIntensity + (endIntensity - startIntensity) * step / segmentSteps) * strength, selection);
+            await sleep(segmentLength / segmentSteps, signal);
         }
-        stopDevices(devices);
     }
 }
+
 async function stopDevices(devices: ButtplugClientDevice[]) {
     for (const device of devices) {
-        await device.stop();
+        try {
+            await stopActuators(device);
+            recordDeviceSuccess(device);
+        } catch (error) {
+            handleDeviceError(device, error);
+        }
     }
-
 }
-async function vibrateDevices(devices: ButtplugClientDevice[], intensity: number) {
+export async function driveDevices(devices: ButtplugClientDevice[], intensity: number, selection: ActuatorSelection) {
     if (intensity > 1) intensity = 1;
     if (intensity < 0) intensity = 0;
+
+    const enabledKinds = parseActuatorKinds(pluginSettings.store.actuatorTypes);
+    const kinds = selection.kinds?.length ? selection.kinds.filter(kind => enabledKinds.includes(kind)) : enabledKinds;
+    if (kinds.length === 0) return;
+
     for (const device of devices) {
-        await device.vibrate(intensity);
+        // A frame that was already being sent when the emergency stop came in mustn't start the devices again
+        if (emergencyStopped) return;
+
+        const config = getDeviceConfig(device);
+        if (!config.enabled || isStoppedForBattery(device)) continue;
+
+        const actuators = selectActuators(device, { kinds, motors: selection.motors });
+        if (actuators.length === 0) continue;
+
+        try {
+            await driveActuators(device, actuators, applyDeviceLimits(config, intensity), { clockwise: pluginSettings.store.rotateClockwise });
+            recordDeviceSuccess(device);
+        } catch (error) {
+            handleDeviceError(device, error);
+        }
     }
 }
 
+type TriggerEvent = "message" | "edit" | "reaction" | "typing";
+
+interface DecisionOptions {
+    /** What happened, only new messages can be commands or the emergency stop keyword (Default: message) */
+    event?: TriggerEvent;
+    /** Content of an edited message before the edit, only matches that weren't in it count */
+    previousContent?: string;
+    /** Rules to use instead of the trigger and add-on words, for reactions and typing */
+    triggerRules?: TriggerRule[];
+}
+
+interface MessageDecision {
+    action: "ignore" | "emergencyStop" | "directControl" | "trigger";
+    /** Why the message does (or doesn't do) something, step by step */
+    steps: string[];
+    grant?: Grant;
+    /** What would be queued for a trigger */
+    command?: ActuatorCommand;
+}
+
+interface FluxMessageUpdate {
+    type: "MESSAGE_UPDATE";
+    message: DiscordMessage;
+}
+
+interface FluxReactionAdd {
+    type: "MESSAGE_REACTION_ADD";
+    channelId: string;
+    messageId: string;
+    userId: string;
+    messageAuthorId?: string;
+    emoji: {
+        id?: string;
+        name: string;
+        animated?: boolean;
+    };
+    optimistic: boolean;
+}
+
+interface FluxTypingStart {
+    type: "TYPING_START";
+    channelId: string;
+    userId: string;
+}
+
 interface FluxMessageCreate {
     type: "MESSAGE_CREATE";
     channelId: string;
@@ -705,7 +2943,7 @@ interface FluxMessageCreate {
     optimistic: boolean;
 }
 
-interface DiscordMessage {
+export interface DiscordMessage {
     content: string;
     mentions?: DiscordUser[];
     member: DiscordUser;
@@ -732,15 +2970,3 @@ interface DiscordUser {
     id: string;
     bot: boolean;
 }
-
-declare module "buttplug" {
-    interface ButtplugClientDevice {
-        warnedLowBattery: boolean;
-    }
-}
-
-type VibrateEvent = {
-    duration: number,
-    strength: number,
-    deviceId?: number;
-};
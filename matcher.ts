@@ -0,0 +1,103 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export type MatchMode = "substring" | "word";
+
+export interface MatchOptions {
+    /** "substring" matches anywhere (the old behaviour), "word" only matches whole words */
+    mode: MatchMode;
+    /** Also match words ending in "s" or "es" (word mode only) */
+    plurals: boolean;
+    /** Treat "goooood" the same as "good" */
+    squashRepeats: boolean;
+}
+
+const zeroWidthPattern = /[\u200B-\u200D\u2060\uFEFF\u00AD]/g;
+// Discord markdown: bold/italic/underline/strike, spoilers, code, quotes and headers
+const markdownPattern = /(\*{1,3}|_{1,3}|~~|\|\||`{1,3}|^>{1,3}\s?|^#{1,3}\s)/gm;
+const regexEntryPattern = /^\/(.+)\/([a-z]*)$/;
+
+const compiledCache = new Map<string, RegExp | null>();
+
+function escapeRegex(text: string) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Only runs of three or more are stretched words, real words like "good" or "cool" have doubled letters
+function squash(text: string) {
+    return text.replace(/(\p{L})\1{2,}/gu, "$1$1");
+}
+
+/**
+ * Splits a comma-separated list from the settings, ignoring stray spaces and empty entries
+ */
+export function splitWordList(list: string | undefined): string[] {
+    return list?.split(",").map(word => word.trim()).filter(Boolean) ?? [];
+}
+
+export function normalizeText(text: string, options: MatchOptions): string {
+    let normalized = text
+        .normalize("NFKC")
+        .replace(zeroWidthPattern, "")
+        .replace(markdownPattern, "")
+        .toLowerCase()
+        .replace(/\s+/g, " ")
+        .trim();
+
+    if (options.squashRepeats) normalized = squash(normalized);
+    return normalized;
+}
+
+function compile(entry: string, options: MatchOptions): RegExp | null {
+    const key = `${options.mode}:${options.plurals}:${options.squashRepeats}:${entry}`;
+    if (compiledCache.has(key)) return compiledCache.get(key)!;
+
+    let compiled: RegExp | null;
+    const regexEntry = entry.match(regexEntryPattern);
+
+    try {
+        if (regexEntry) {
+            const flags = regexEntry[2].includes("g") ? regexEntry[2] : regexEntry[2] + "g";
+            compiled = new RegExp(regexEntry[1], flags);
+        } else {
+            const word = escapeRegex(normalizeText(entry, options));
+            if (!word) {
+                compiled = null;
+            } else if (options.mode === "substring") {
+                compiled = new RegExp(word, "gu");
+            } else {
+                compiled = new RegExp(`(?<![\\p{L}\\p{N}])${word}${options.plurals ? "(?:e?s)?" : ""}(?![\\p{L}\\p{N}])`, "gu");
+            }
+        }
+    } catch (error) {
+        console.error(`Invalid match entry "${entry}"`, error);
+        compiled = null;
+    }
+
+    compiledCache.set(key, compiled);
+    return compiled;
+}
+
+/**
+ * Counts how often an entry occurs in text that was already passed through {@link normalizeText}.
+ * Entries written as /pattern/flags are used as regular expressions
+ */
+export function countMatches(normalizedText: string, entry: string, options: MatchOptions): number {
+    const pattern = compile(entry, options);
+    if (!pattern) return 0;
+
+    let count = 0;
+    for (const match of normalizedText.matchAll(pattern)) {
+        if (match[0].length === 0) continue;
+        count++;
+    }
+
+    return count;
+}
+
+export function matchesAny(normalizedText: string, entries: string[], options: MatchOptions): boolean {
+    return entries.some(entry => countMatches(normalizedText, entry, options) > 0);
+}
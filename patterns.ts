@@ -0,0 +1,143 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+/** [time in ms, intensity from 0 to 1]. Two keyframes at the same time make an instant jump */
+export type Keyframe = [time: number, intensity: number];
+
+export interface CustomPattern {
+    /** [time in ms, intensity from 0 to 100] */
+    keyframes: [number, number][];
+    /** If true, the keyframes are repeated to fill the duration, otherwise they are stretched to fit it */
+    loop?: boolean;
+}
+
+type PatternBuilder = (duration: number) => Keyframe[];
+
+/**
+ * Repeats a single cycle of keyframes until the duration is filled, cutting off the last cycle
+ */
+function repeat(cycle: Keyframe[], cycleLength: number, duration: number): Keyframe[] {
+    const keyframes: Keyframe[] = [];
+    for (let offset = 0; offset < duration; offset += cycleLength) {
+        for (const [time, intensity] of cycle) {
+            if (offset + time > duration) {
+                // Cut the last cycle short at the intensity it has reached by then, instead of jumping to the stop
+                const [lastTime, lastIntensity] = keyframes[keyframes.length - 1] ?? [offset + time, intensity];
+                if (lastTime < duration) {
+                    const progress = (duration - lastTime) / (offset + time - lastTime);
+                    keyframes.push([duration, lastIntensity + (intensity - lastIntensity) * progress]);
+                }
+                break;
+            }
+            keyframes.push([offset + time, intensity]);
+        }
+    }
+
+    keyframes.push([duration, 0]);
+    return keyframes;
+}
+
+function stretch(cycle: Keyframe[], duration: number): Keyframe[] {
+    const length = cycle[cycle.length - 1][0] || 1;
+    return cycle.map(([time, intensity]) => [time / length * duration, intensity]);
+}
+
+export const builtInPatterns: Record<string, PatternBuilder> = {
+    constant: duration => [[0, 1], [duration, 1], [duration, 0]],
+    // Same shape the plugin always used: ramp up for 20%, hold for 54%, ramp down for 20%
+    ramp: duration => [[0, 0], [duration * 0.2, 1], [duration * 0.74, 1], [duration * 0.94, 0], [duration, 0]],
+    pulse: duration => repeat([[0, 1], [250, 1], [250, 0], [500, 0]], 500, duration),
+    wave: duration => repeat([[0, 0.2], [1000, 1], [2000, 0.2]], 2000, duration),
+    escalate: duration => [
+        [0, 0.25], [duration * 0.25, 0.25],
+        [duration * 0.25, 0.5], [duration * 0.5, 0.5],
+        [duration * 0.5, 0.75], [duration * 0.75, 0.75],
+        [duration * 0.75, 1], [duration, 1],
+        [duration, 0]
+    ],
+    heartbeat: duration => repeat([[0, 0], [100, 1], [200, 0.2], [300, 0.8], [400, 0], [1000, 0]], 1000, duration),
+    random: duration => {
+        const keyframes: Keyframe[] = [];
+        for (let time = 0; time < duration; time += 300) {
+            const intensity = 0.2 + Math.random() * 0.8;
+            keyframes.push([time, intensity], [Math.min(time + 300, duration), intensity]);
+        }
+
+        keyframes.push([duration, 0]);
+        return keyframes;
+    },
+};
+
+export function parseCustomPatterns(json: string | undefined): Record<string, CustomPattern> {
+    if (!json?.trim()) return {};
+    const parsed = JSON.parse(json);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed))
+        throw new Error("Custom patterns must be a JSON object of pattern names to patterns");
+
+    for (const [name, pattern] of Object.entries<unknown>(parsed)) {
+        if (Object.hasOwn(builtInPatterns, name)) throw new Error(`"${name}" is already a built-in pattern`);
+        if (typeof pattern !== "object" || pattern === null || Array.isArray(pattern)) throw new Error(`Pattern "${name}" is not an object`);
+
+        const { keyframes, loop } = pattern as Record<string, unknown>;
+        if (!Array.isArray(keyframes) || keyframes.length < 2)
+            throw new Error(`Pattern "${name}" needs at least two keyframes`);
+        if (loop !== undefined && typeof loop !== "boolean") throw new Error(`Pattern "${name}" has an invalid "loop"`);
+
+        let lastTime = 0;
+        for (const keyframe of keyframes) {
+            if (!Array.isArray(keyframe) || keyframe.length !== 2 || keyframe.some((value: unknown) => typeof value !== "number"))
+                throw new Error(`Pattern "${name}" has an invalid keyframe, expected [time, intensity]`);
+            if (keyframe[0] < lastTime) throw new Error(`Pattern "${name}" has keyframes that go back in time`);
+            if (keyframe[1] < 0 || keyframe[1] > 100) throw new Error(`Pattern "${name}" has an intensity outside of 0 - 100`);
+            lastTime = keyframe[0];
+        }
+    }
+
+    return parsed as Record<string, CustomPattern>;
+}
+
+export function validateCustomPatterns(json: string): true | string {
+    try {
+        parseCustomPatterns(json);
+        return true;
+    } catch (error) {
+        return (error as Error).message;
+    }
+}
+
+export function getPatternNames(customPatternsJson: string | undefined): string[] {
+    let customPatterns: Record<string, CustomPattern> = {};
+    try {
+        customPatterns = parseCustomPatterns(customPatternsJson);
+    } catch (error) {
+        console.error("Ignoring the custom patterns:", error);
+    }
+
+    return [...Object.keys(builtInPatterns), ...Object.keys(customPatterns)];
+}
+
+/**
+ * Builds the keyframes for a pattern, returns undefined if no pattern with that name exists
+ */
+export function buildPattern(name: string, duration: number, customPatternsJson: string | undefined): Keyframe[] | undefined {
+    if (Object.hasOwn(builtInPatterns, name)) return builtInPatterns[name](duration);
+
+    let customPatterns: Record<string, CustomPattern>;
+    try {
+        customPatterns = parseCustomPatterns(customPatternsJson);
+    } catch (error) {
+        console.error(error);
+        return;
+    }
+
+    if (!Object.hasOwn(customPatterns, name)) return;
+    const pattern = customPatterns[name];
+
+    const cycle = pattern.keyframes.map(([time, intensity]): Keyframe => [time, intensity / 100]);
+    return pattern.loop
+        ? repeat(cycle, cycle[cycle.length - 1][0] || duration, duration)
+        : stretch(cycle, duration);
+}
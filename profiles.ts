@@ -0,0 +1,220 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as DataStore from "@api/DataStore";
+
+type SettingType = "string" | "number" | "boolean";
+type SettingValue<T extends SettingType> = T extends "string" ? string : T extends "number" ? number : boolean;
+
+/** The settings a profile bundles and the type of their values */
+export const profileSettingTypes = {
+    // Words and rules
+    targetWords: "string",
+    triggerWords: "string",
+    addOnWords: "string",
+    triggerRules: "string",
+    addOnRules: "string",
+    reactionRules: "string",
+    customPatterns: "string",
+    matchMode: "string",
+    matchPlurals: "boolean",
+    ignoreRepeatedLetters: "boolean",
+    countRepeatedWords: "boolean",
+    messageScoring: "boolean",
+    scoringModel: "string",
+    editTriggers: "boolean",
+    reactionTriggers: "boolean",
+    typingTriggers: "boolean",
+    typingStrength: "number",
+    typingDuration: "number",
+    // Filters
+    switchBlacklistToWhitelist: "boolean",
+    listedUsers: "string",
+    listedChannels: "string",
+    listedGuilds: "string",
+    altOptions: "string",
+    // Intensity
+    maxVibrationIntensity: "number",
+    dmStrengthMultiplier: "number",
+    dmDurationMultiplier: "number",
+    actuatorTypes: "string",
+    heatMode: "boolean",
+    heatGain: "number",
+    heatDecay: "number",
+    // Remote control
+    allowDirectUserControl: "boolean",
+    directControlAllowedUsers: "string",
+    directControlCommandPrefix: "string",
+    maxCommandDuration: "number",
+    userCooldown: "number",
+    globalCooldown: "number",
+    userBudget: "number",
+    budgetWindow: "number",
+    throttleFeedback: "boolean",
+    // Feedback
+    dmFeedback: "string",
+    guildFeedback: "string",
+    feedbackEmoji: "string",
+    feedbackTemplate: "string",
+    feedbackCooldown: "number",
+} satisfies Record<string, SettingType>;
+
+export type ProfileSettingKey = keyof typeof profileSettingTypes;
+export type ProfileSettings = Partial<Record<ProfileSettingKey, string | number | boolean>>;
+export type SettingValidators = { [K in ProfileSettingKey]?: (value: SettingValue<typeof profileSettingTypes[K]>) => true | string };
+
+interface SettingDefinition {
+    type: unknown;
+    default?: unknown;
+    options?: readonly { value: unknown; default?: boolean; }[];
+}
+
+export interface ProfileFile {
+    version: number;
+    profiles: Record<string, ProfileSettings>;
+}
+
+/** Bump when the file format changes in a way older versions can't read */
+export const PROFILE_FILE_VERSION = 1;
+const PROFILES_KEY = "Venplug_profiles";
+
+let profiles: Record<string, ProfileSettings> = {};
+let activeProfile: string | undefined;
+
+export async function loadProfiles() {
+    const stored = await DataStore.get<{ profiles: Record<string, ProfileSettings>; active?: string; }>(PROFILES_KEY);
+    profiles = stored?.profiles ?? {};
+    activeProfile = stored?.active;
+}
+
+function saveProfiles() {
+    return DataStore.set(PROFILES_KEY, { profiles, active: activeProfile });
+}
+
+export function getProfileNames(): string[] {
+    return Object.keys(profiles);
+}
+
+/**
+ * Finds a profile ignoring case, returns its name as it was saved
+ */
+export function findProfile(name: string): string | undefined {
+    return Object.keys(profiles).find(profile => profile.toLowerCase() === name.trim().toLowerCase());
+}
+
+export function getProfile(name: string): ProfileSettings | undefined {
+    return Object.hasOwn(profiles, name) ? profiles[name] : undefined;
+}
+
+export function getActiveProfile(): string | undefined {
+    return activeProfile && Object.hasOwn(profiles, activeProfile) ? activeProfile : undefined;
+}
+
+function hasSettingType(key: ProfileSettingKey, value: unknown): value is string | number | boolean {
+    return typeof value === profileSettingTypes[key];
+}
+
+/**
+ * Takes the bundled settings out of the plugin settings
+ */
+export function pickProfileSettings(store: Record<string, unknown>): ProfileSettings {
+    const settings: ProfileSettings = {};
+    for (const key of Object.keys(profileSettingTypes) as ProfileSettingKey[]) {
+        const value = store[key];
+        if (hasSettingType(key, value)) settings[key] = value;
+    }
+    return settings;
+}
+
+/**
+ * Returns the defaults of the bundled settings from the plugin's setting definitions
+ */
+export function getProfileDefaults(definitions: Record<string, SettingDefinition>): ProfileSettings {
+    const defaults: Record<string, unknown> = {};
+    for (const [key, definition] of Object.entries(definitions))
+        defaults[key] = definition.default ?? definition.options?.find(option => option.default)?.value;
+
+    // Text settings without a default start out empty, so nothing carries over from the previous profile
+    for (const [key, type] of Object.entries(profileSettingTypes)) {
+        if (type === "string" && defaults[key] === undefined) defaults[key] = "";
+    }
+    return pickProfileSettings(defaults);
+}
+
+/**
+ * Puts a profile's settings into the plugin settings. Settings the profile doesn't have go back to
+ * their defaults, so nothing carries over from the previous profile
+ */
+export function applyProfile(store: Record<string, unknown>, settings: ProfileSettings, defaults: ProfileSettings) {
+    for (const key of Object.keys(profileSettingTypes) as ProfileSettingKey[]) {
+        // Settings without a default keep their current value, undefined would break them
+        const value = Object.hasOwn(settings, key) ? settings[key] : defaults[key];
+        if (value !== undefined) store[key] = value;
+    }
+}
+
+export async function saveProfile(name: string, settings: ProfileSettings) {
+    profiles[name] = settings;
+    await saveProfiles();
+}
+
+export async function deleteProfile(name: string) {
+    delete profiles[name];
+    if (activeProfile === name) activeProfile = undefined;
+    await saveProfiles();
+}
+
+export async function setActiveProfile(name: string | undefined) {
+    activeProfile = name;
+    await saveProfiles();
+}
+
+export function exportProfiles(names: string[]): string {
+    const file: ProfileFile = {
+        version: PROFILE_FILE_VERSION,
+        profiles: Object.fromEntries(names.map(name => [name, profiles[name]])),
+    };
+    return JSON.stringify(file, null, 4);
+}
+
+/**
+ * Parses and validates an exported profile file, throws if anything in it is invalid
+ */
+export function parseProfileFile(json: string, validators: SettingValidators): Record<string, ProfileSettings> {
+    let parsed: ProfileFile;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error("The file isn't valid JSON");
+    }
+
+    if (typeof parsed !== "object" || parsed === null || typeof parsed.version !== "number")
+        throw new Error("The file isn't a profile export");
+    if (parsed.version > PROFILE_FILE_VERSION)
+        throw new Error(`The file is from a newer version (${parsed.version}) of the plugin, please update`);
+    if (typeof parsed.profiles !== "object" || parsed.profiles === null || Array.isArray(parsed.profiles))
+        throw new Error("The file doesn't contain any profiles");
+
+    for (const [name, settings] of Object.entries<unknown>(parsed.profiles)) {
+        if (!name.trim()) throw new Error("Profiles need a name");
+        if (typeof settings !== "object" || settings === null || Array.isArray(settings))
+            throw new Error(`Profile "${name}" isn't an object of settings`);
+
+        for (const [key, value] of Object.entries(settings)) {
+            if (!Object.hasOwn(profileSettingTypes, key)) throw new Error(`Profile "${name}" contains the unknown setting "${key}"`);
+
+            const settingKey = key as ProfileSettingKey;
+            if (!hasSettingType(settingKey, value)) throw new Error(`Setting "${key}" of profile "${name}" has to be a ${profileSettingTypes[settingKey]}`);
+
+            // The type of the value was just checked, so it fits the setting's validator
+            const validator = validators[settingKey] as ((value: string | number | boolean) => true | string) | undefined;
+            const valid = validator?.(value) ?? true;
+            if (valid !== true) throw new Error(`Setting "${key}" of profile "${name}" is invalid: ${valid}`);
+        }
+    }
+
+    return parsed.profiles;
+}
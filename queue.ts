@@ -0,0 +1,136 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { ActuatorKind } from "./actuators";
+
+export enum QueuePriority {
+    Trigger = 0,
+    Command = 1,
+    DirectControl = 2,
+}
+
+export type ActuatorCommand = {
+    duration: number,
+    strength: number,
+    /** Device nicknames, IDs or keys, all devices if left out */
+    devices?: string[];
+    /** The trigger words that caused this, so devices can ignore triggers they don't respond to */
+    triggers?: string[];
+    /** Actuator types to drive, all enabled types if left out */
+    actuators?: ActuatorKind[];
+    /** 1-based motors to drive on multi-motor devices, all motors if left out */
+    motors?: number[];
+    /** Name of a built-in or custom pattern, falls back to the rampUpAndDown setting */
+    pattern?: string;
+    /** Higher priorities are played first, defaults to {@link QueuePriority.Trigger} */
+    priority?: QueuePriority;
+    /** What added this command, shown in /queue */
+    source?: string;
+    queuedAt?: number;
+};
+
+export type QueuePolicy = "append" | "replace" | "merge";
+export type MergeMode = "max" | "sum";
+
+export interface QueueOptions {
+    policy: QueuePolicy;
+    mergeMode: MergeMode;
+    /** Maximum amount of waiting commands, 0 for no limit */
+    maxLength: number;
+    /** Maximum total duration of waiting commands in ms, 0 for no limit */
+    maxDuration: number;
+    /** If true, a higher priority command stops a lower priority one that is playing */
+    priorityInterrupts: boolean;
+}
+
+export interface EnqueueResult {
+    accepted: boolean;
+    /** The command that is currently playing should be stopped */
+    interrupt: boolean;
+}
+
+function sameTarget(a: ActuatorCommand, b: ActuatorCommand) {
+    const sameList = (x?: (string | number)[], y?: (string | number)[]) => (x ?? []).join(",") === (y ?? []).join(",");
+    return a.pattern === b.pattern && sameList(a.devices, b.devices) && sameList(a.actuators, b.actuators) && sameList(a.motors, b.motors);
+}
+
+/**
+ * Adds a command to the queue according to the queue policy. If something is playing, it is
+ * the first entry of the queue and is never touched here, only flagged to be interrupted
+ */
+export function enqueue(queue: ActuatorCommand[], command: ActuatorCommand, isPlaying: boolean, options: QueueOptions): EnqueueResult {
+    const start = isPlaying ? 1 : 0;
+    const current = isPlaying ? queue[0] : undefined;
+    const priority = command.priority ?? QueuePriority.Trigger;
+    command.queuedAt ??= Date.now();
+
+    if (options.policy === "replace") {
+        // Only commands of the same or a lower priority are replaced, the higher ones that are left play first
+        for (let i = queue.length - 1; i >= start; i--) {
+            if ((queue[i].priority ?? QueuePriority.Trigger) <= priority) queue.splice(i, 1);
+        }
+        queue.push(command);
+        return { accepted: true, interrupt: !!current && (current.priority ?? QueuePriority.Trigger) <= priority };
+    }
+
+    if (options.policy === "merge") {
+        for (let i = queue.length - 1; i >= start; i--) {
+            const queued = queue[i];
+            if ((queued.priority ?? QueuePriority.Trigger) !== priority || !sameTarget(queued, command)) continue;
+
+            queued.strength = options.mergeMode === "sum"
+                ? Math.min(queued.strength + command.strength, 1)
+                : Math.max(queued.strength, command.strength);
+            queued.duration = Math.max(queued.duration, command.duration);
+            queued.triggers = queued.triggers && command.triggers ? [...new Set([...queued.triggers, ...command.triggers])] : undefined;
+            // It now also carries the new command, which shouldn't expire before it would have on its own
+            queued.queuedAt = command.queuedAt;
+            return { accepted: true, interrupt: false };
+        }
+    }
+
+    let index = queue.length;
+    for (let i = start; i < queue.length; i++) {
+        if ((queue[i].priority ?? QueuePriority.Trigger) < priority) {
+            index = i;
+            break;
+        }
+    }
+    queue.splice(index, 0, command);
+
+    // Drop the lowest priority (and newest) commands until the limits are met
+    const pendingDuration = () => queue.slice(start).reduce((total, queued) => total + queued.duration, 0);
+    while (queue.length - start > 1 && (
+        (options.maxLength > 0 && queue.length - start > options.maxLength)
+        || (options.maxDuration > 0 && pendingDuration() > options.maxDuration)
+    )) {
+        queue.pop();
+    }
+
+    const accepted = queue.includes(command);
+    return {
+        accepted,
+        interrupt: accepted && !!current && options.priorityInterrupts && priority > (current.priority ?? QueuePriority.Trigger)
+    };
+}
+
+/**
+ * Removes commands that waited longer than the expiry (in ms), returns how many were removed
+ */
+export function removeExpired(queue: ActuatorCommand[], expiry: number, isPlaying: boolean): number {
+    if (expiry <= 0) return 0;
+
+    const start = isPlaying ? 1 : 0;
+    const now = Date.now();
+    let removed = 0;
+    for (let i = queue.length - 1; i >= start; i--) {
+        if (now - (queue[i].queuedAt ?? now) <= expiry) continue;
+        queue.splice(i, 1);
+        removed++;
+    }
+
+    return removed;
+}
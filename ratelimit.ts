@@ -0,0 +1,98 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export type LimitKind = "trigger" | "command";
+
+export interface RateLimitOptions {
+    /** Time in ms a user has to wait between two uses, 0 for no cooldown */
+    userCooldown: number;
+    /** Time in ms everyone has to wait after anyone used it, 0 for no cooldown */
+    globalCooldown: number;
+    /** Intensity-seconds (full intensity for one second = 1) a user may use per window, 0 for no budget */
+    budget: number;
+    /** Length of the rolling budget window in ms */
+    budgetWindow: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    reason?: string;
+    /** Time in ms until the user can try again */
+    retryAfter?: number;
+}
+
+const lastUses = new Map<string, number>();
+const usage = new Map<string, { time: number; cost: number; }[]>();
+// Users that were already told they are throttled, so they aren't told again for every message
+const notifiedUsers = new Set<string>();
+
+export function getCost(strength: number, duration: number) {
+    return strength * duration / 1000;
+}
+
+function formatTime(ms: number) {
+    return ms >= 60000 ? `${Math.ceil(ms / 60000)} minute(s)` : `${Math.ceil(ms / 1000)} second(s)`;
+}
+
+export function getUsedBudget(userId: string, options: RateLimitOptions): number {
+    const now = Date.now();
+    const entries = (usage.get(userId) ?? []).filter(entry => now - entry.time < options.budgetWindow);
+    usage.set(userId, entries);
+    return entries.reduce((total, entry) => total + entry.cost, 0);
+}
+
+/**
+ * Checks whether a user may trigger something that costs `cost` intensity-seconds, and records the use if so
+ */
+export function checkRateLimit(kind: LimitKind, userId: string, cost: number, options: RateLimitOptions): RateLimitResult {
+    const now = Date.now();
+
+    const globalWait = (lastUses.get(kind) ?? 0) + options.globalCooldown - now;
+    if (options.globalCooldown > 0 && globalWait > 0)
+        return { allowed: false, reason: `Everyone has to wait ${formatTime(globalWait)} before trying again`, retryAfter: globalWait };
+
+    const userWait = (lastUses.get(`${kind}:${userId}`) ?? 0) + options.userCooldown - now;
+    if (options.userCooldown > 0 && userWait > 0)
+        return { allowed: false, reason: `You have to wait ${formatTime(userWait)} before trying again`, retryAfter: userWait };
+
+    if (options.budget > 0) {
+        if (cost > options.budget)
+            return { allowed: false, reason: `That is more than your whole budget of ${options.budget} intensity-seconds, try something shorter or weaker` };
+
+        const used = getUsedBudget(userId, options);
+        if (used + cost > options.budget) {
+            const oldest = usage.get(userId)?.[0];
+            const retryAfter = oldest ? oldest.time + options.budgetWindow - now : options.budgetWindow;
+            return {
+                allowed: false,
+                reason: `You used ${Math.round(used)} of your ${options.budget} intensity-seconds, try again in ${formatTime(retryAfter)}`,
+                retryAfter
+            };
+        }
+    }
+
+    lastUses.set(kind, now);
+    lastUses.set(`${kind}:${userId}`, now);
+    if (cost > 0) usage.set(userId, [...(usage.get(userId) ?? []), { time: now, cost }]);
+    notifiedUsers.delete(userId);
+
+    return { allowed: true };
+}
+
+/**
+ * Returns true the first time a user is throttled, until they are allowed again
+ */
+export function shouldNotifyThrottled(userId: string): boolean {
+    if (notifiedUsers.has(userId)) return false;
+    notifiedUsers.add(userId);
+    return true;
+}
+
+export function resetRateLimits() {
+    lastUses.clear();
+    usage.clear();
+    notifiedUsers.clear();
+}
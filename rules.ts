@@ -0,0 +1,180 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { ActuatorKind, actuatorKinds } from "./actuators";
+import { splitWordList } from "./matcher";
+
+export type StackingMode = "add" | "max";
+export type MessageContext = "dm" | "guild";
+
+export interface ContextModifier {
+    /** Multiplier applied to the strength this rule contributes */
+    strength?: number;
+    /** Multiplier applied to the duration this rule contributes */
+    duration?: number;
+}
+
+export interface TriggerRule {
+    /** A word, phrase or /regex/ to match */
+    word: string;
+    /** Intensity (0 - 100) added when the word is found */
+    strength: number;
+    /** Duration in ms added when the word is found */
+    duration: number;
+    /** Random extra duration in ms (0 - durationJitter) */
+    durationJitter?: number;
+    /** "add" stacks with other matches, "max" only raises the result to this rule's values */
+    stacking?: StackingMode;
+    /** Device nicknames or IDs (as shown in `devices`), all devices if empty */
+    devices?: (string | number)[];
+    pattern?: string;
+    /** Actuator types to drive (vibrate, rotate, oscillate, linear, scalar), all if empty */
+    actuators?: ActuatorKind[];
+    /** 1-based motors to drive on devices with more than one of the same actuator, all if empty */
+    motors?: number[];
+    modifiers?: Partial<Record<MessageContext, ContextModifier>>;
+}
+
+export interface RuleResult {
+    triggered: boolean;
+    strength: number;
+    duration: number;
+    devices?: (string | number)[];
+    pattern?: string;
+    actuators?: ActuatorKind[];
+    motors?: number[];
+    matchedTriggers: TriggerRule[];
+    matchedAddOns: TriggerRule[];
+}
+
+// These used to be hardcoded in handleMessage, they're now only the defaults for the plain word lists
+export const DEFAULT_TRIGGER_RULE: Omit<TriggerRule, "word"> = { strength: 19, duration: 2000 };
+export const DEFAULT_ADD_ON_RULE: Omit<TriggerRule, "word"> = { strength: 7.5, duration: 5, durationJitter: 25 };
+
+const messageContexts: MessageContext[] = ["dm", "guild"];
+
+function isNonNegative(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function isValidModifiers(modifiers: unknown): boolean {
+    if (typeof modifiers !== "object" || modifiers === null || Array.isArray(modifiers)) return false;
+
+    return Object.entries(modifiers).every(([context, modifier]) =>
+        messageContexts.includes(context as MessageContext)
+        && typeof modifier === "object" && modifier !== null && !Array.isArray(modifier)
+        && Object.entries(modifier).every(([key, value]) => (key === "strength" || key === "duration") && isNonNegative(value)));
+}
+
+export function parseRules(json: string | undefined): TriggerRule[] {
+    if (!json?.trim()) return [];
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) throw new Error("Rules must be a JSON array");
+
+    return parsed.map((rule, i) => {
+        if (typeof rule !== "object" || rule === null) throw new Error(`Rule ${i + 1} is not an object`);
+        if (typeof rule.word !== "string" || !rule.word) throw new Error(`Rule ${i + 1} is missing a "word"`);
+        if (!isNonNegative(rule.strength)) throw new Error(`Rule "${rule.word}" has an invalid "strength"`);
+        if (!isNonNegative(rule.duration)) throw new Error(`Rule "${rule.word}" has an invalid "duration"`);
+        if (rule.durationJitter !== undefined && !isNonNegative(rule.durationJitter)) throw new Error(`Rule "${rule.word}" has an invalid "durationJitter"`);
+        if (rule.modifiers !== undefined && !isValidModifiers(rule.modifiers))
+            throw new Error(`Rule "${rule.word}" has invalid "modifiers" (expected e.g. {"dm": {"strength": 1.5, "duration": 2}})`);
+        if (rule.stacking !== undefined && rule.stacking !== "add" && rule.stacking !== "max") throw new Error(`Rule "${rule.word}" has an invalid "stacking" (expected "add" or "max")`);
+        if (rule.pattern !== undefined && typeof rule.pattern !== "string") throw new Error(`Rule "${rule.word}" has an invalid "pattern"`);
+        if (rule.devices !== undefined && (!Array.isArray(rule.devices) || rule.devices.some((id: unknown) => typeof id !== "string" && (typeof id !== "number" || id < 0))))
+            throw new Error(`Rule "${rule.word}" has invalid "devices" (expected device nicknames or IDs)`);
+
+        if (rule.actuators !== undefined && (!Array.isArray(rule.actuators) || rule.actuators.some((kind: unknown) => !actuatorKinds.includes(kind as ActuatorKind))))
+            throw new Error(`Rule "${rule.word}" has invalid "actuators" (expected any of: ${actuatorKinds.join(", ")})`);
+        if (rule.motors !== undefined && (!Array.isArray(rule.motors) || rule.motors.some((motor: unknown) => typeof motor !== "number" || motor < 1)))
+            throw new Error(`Rule "${rule.word}" has invalid "motors" (expected motor numbers starting at 1)`);
+
+        return rule as TriggerRule;
+    });
+}
+
+export function validateRules(json: string): true | string {
+    try {
+        parseRules(json);
+        return true;
+    } catch (error) {
+        return (error as Error).message;
+    }
+}
+
+/**
+ * Combines the JSON rule table with the plain comma-separated word list, words that
+ * already have a rule are not added twice
+ */
+export function buildRules(json: string | undefined, words: string | undefined, defaults: Omit<TriggerRule, "word">): TriggerRule[] {
+    let rules: TriggerRule[];
+    try {
+        rules = parseRules(json);
+    } catch (error) {
+        console.error(error);
+        rules = [];
+    }
+
+    for (const word of splitWordList(words)) {
+        if (rules.some(rule => rule.word === word)) continue;
+        rules.push({ word, ...defaults });
+    }
+
+    return rules;
+}
+
+export function evaluateRules(
+    content: string,
+    triggerRules: TriggerRule[],
+    addOnRules: TriggerRule[],
+    context: MessageContext,
+    contextModifiers: Partial<Record<MessageContext, ContextModifier>>,
+    countMatches: (content: string, word: string) => number
+): RuleResult {
+    const result: RuleResult = { triggered: false, strength: 0, duration: 0, matchedTriggers: [], matchedAddOns: [] };
+
+    const apply = (rule: TriggerRule) => {
+        const modifier = rule.modifiers?.[context] ?? contextModifiers[context];
+        const strength = rule.strength * (modifier?.strength ?? 1);
+        const duration = (rule.duration + Math.floor(Math.random() * ((rule.durationJitter ?? 0) + 1))) * (modifier?.duration ?? 1);
+
+        if (rule.stacking === "max") {
+            result.strength = Math.max(result.strength, strength);
+            result.duration = Math.max(result.duration, duration);
+        } else {
+            result.strength += strength;
+            result.duration += duration;
+        }
+
+        if (rule.devices?.length)
+            result.devices = [...new Set([...(result.devices ?? []), ...rule.devices])];
+        if (rule.actuators?.length)
+            result.actuators = [...new Set([...(result.actuators ?? []), ...rule.actuators])];
+        if (rule.motors?.length)
+            result.motors = [...new Set([...(result.motors ?? []), ...rule.motors])];
+        if (rule.pattern && !result.pattern)
+            result.pattern = rule.pattern;
+    };
+
+    for (const rule of triggerRules) {
+        const count = countMatches(content, rule.word);
+        if (count === 0) continue;
+        result.triggered = true;
+        result.matchedTriggers.push(rule);
+        for (let i = 0; i < count; i++) apply(rule);
+    }
+
+    if (!result.triggered) return result;
+
+    for (const rule of addOnRules) {
+        const count = countMatches(content, rule.word);
+        if (count === 0) continue;
+        result.matchedAddOns.push(rule);
+        for (let i = 0; i < count; i++) apply(rule);
+    }
+
+    return result;
+}
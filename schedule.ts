@@ -0,0 +1,113 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+/** Minutes since midnight, the end can be smaller than the start for windows that go past midnight */
+export interface ScheduleWindow {
+    start: number;
+    end: number;
+}
+
+/** Active windows for every day of the week, 0 is sunday like Date.getDay() */
+export type Schedule = ScheduleWindow[][];
+
+export interface PauseOptions {
+    /** Timestamp a manual pause ends at, Infinity until resumed, null if not paused */
+    pausedUntil: number | null;
+    /** Only active within these windows, always active if not set */
+    schedule?: Schedule;
+    pauseOnDnd: boolean;
+    pauseWhenInvisible: boolean;
+    pauseInVoice: boolean;
+}
+
+export interface Presence {
+    /** online, idle, dnd or invisible */
+    status?: string;
+    inVoice: boolean;
+}
+
+const dayNames = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const windowPattern = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/;
+
+function parseDays(key: string): number[] {
+    const name = key.trim().toLowerCase();
+    if (name === "daily") return [0, 1, 2, 3, 4, 5, 6];
+    if (name === "weekdays") return [1, 2, 3, 4, 5];
+    if (name === "weekend") return [0, 6];
+
+    const [first, last] = name.split("-").map(day => dayNames.indexOf(day.trim().slice(0, 3)));
+    if (first === -1 || last === -1) throw new Error(`Unknown day "${key}", expected e.g. mon, mon-fri, weekdays, weekend or daily`);
+    if (last === undefined) return [first];
+
+    const days: number[] = [];
+    for (let day = first; ; day = (day + 1) % 7) {
+        days.push(day);
+        if (day === last) return days;
+    }
+}
+
+function parseWindow(text: string): ScheduleWindow {
+    const match = typeof text === "string" && text.trim().match(windowPattern);
+    if (!match) throw new Error(`Invalid time window "${text}", expected e.g. "18:00-23:30"`);
+
+    const [startHours, startMinutes, endHours, endMinutes] = match.slice(1).map(Number);
+    if (startHours > 24 || endHours > 24 || startMinutes > 59 || endMinutes > 59) throw new Error(`Invalid time window "${text}"`);
+    return { start: startHours * 60 + startMinutes, end: endHours * 60 + endMinutes };
+}
+
+/**
+ * Parses a schedule like {"mon-fri": ["18:00-23:30"], "weekend": ["10:00-02:00"]}, returns undefined for an empty schedule
+ */
+export function parseSchedule(json: string | undefined): Schedule | undefined {
+    if (!json?.trim()) return undefined;
+    const parsed = JSON.parse(json);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed))
+        throw new Error("The schedule must be a JSON object of days to time windows");
+
+    const schedule: Schedule = [[], [], [], [], [], [], []];
+    for (const [key, windows] of Object.entries<unknown>(parsed)) {
+        if (!Array.isArray(windows)) throw new Error(`The windows of "${key}" must be a list, e.g. ["18:00-23:30"]`);
+        for (const day of parseDays(key)) schedule[day].push(...windows.map(parseWindow));
+    }
+
+    return schedule;
+}
+
+export function validateSchedule(json: string): true | string {
+    try {
+        parseSchedule(json);
+        return true;
+    } catch (error) {
+        return (error as Error).message;
+    }
+}
+
+export function isScheduledActive(schedule: Schedule | undefined, date = new Date()): boolean {
+    if (!schedule) return true;
+
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    const today = schedule[date.getDay()];
+    const yesterday = schedule[(date.getDay() + 6) % 7];
+
+    return today.some(window => window.start <= window.end
+        ? minutes >= window.start && minutes < window.end
+        : minutes >= window.start)
+        // Windows that started yesterday and go past midnight
+        || yesterday.some(window => window.start > window.end && minutes < window.end);
+}
+
+/**
+ * Returns why triggers are paused right now, or undefined if they aren't
+ */
+export function getPauseReason(options: PauseOptions, presence: Presence, now = Date.now()): string | undefined {
+    if (options.pausedUntil !== null && options.pausedUntil > now)
+        return options.pausedUntil === Infinity ? "paused until you resume" : `paused until <t:${Math.floor(options.pausedUntil / 1000)}:t>`;
+    if (!isScheduledActive(options.schedule, new Date(now))) return "outside of the active schedule";
+    if (options.pauseOnDnd && presence.status === "dnd") return "your status is Do Not Disturb";
+    if (options.pauseWhenInvisible && presence.status === "invisible") return "your status is invisible";
+    if (options.pauseInVoice && presence.inVoice) return "you are in a voice call";
+    return undefined;
+}
@@ -0,0 +1,148 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export interface FeatureWeight {
+    /** Intensity (0 - 100) added every time the feature counts */
+    strength?: number;
+    /** Duration in ms added every time the feature counts */
+    duration?: number;
+    /** Highest number of times the feature counts */
+    max?: number;
+}
+
+export interface ScoringModel {
+    /** Most letters (70% of at least 5) are uppercase */
+    caps?: FeatureWeight;
+    /** Every exclamation mark */
+    exclamation?: FeatureWeight;
+    /** Every time one of these emoji (the emoji itself, or the name of a custom emoji) is used */
+    emoji?: Record<string, FeatureWeight>;
+    /** Every time a trigger word is repeated after its first match */
+    repetition?: FeatureWeight;
+    /** Every full step of characters */
+    length?: FeatureWeight & { per?: number; };
+    /** The message replies to you */
+    reply?: FeatureWeight;
+    /** The message pings you */
+    ping?: FeatureWeight;
+}
+
+export interface MessageFeatures {
+    content: string;
+    isReply: boolean;
+    isPing: boolean;
+    /** How often trigger words were matched beyond their first match */
+    repeatedMatches: number;
+}
+
+export interface ScoreContribution {
+    feature: string;
+    count: number;
+    strength: number;
+    duration: number;
+}
+
+export interface ScoreResult {
+    strength: number;
+    duration: number;
+    breakdown: ScoreContribution[];
+}
+
+const featureNames = ["caps", "exclamation", "emoji", "repetition", "length", "reply", "ping"];
+const defaultLengthStep = 100;
+
+function parseWeight(weight: unknown, name: string): FeatureWeight {
+    if (typeof weight !== "object" || weight === null || Array.isArray(weight)) throw new Error(`"${name}" must be an object like {"strength": 5, "duration": 500}`);
+
+    const { strength, duration, max, per } = weight as FeatureWeight & { per?: unknown; };
+    if (strength !== undefined && (typeof strength !== "number" || strength < 0)) throw new Error(`"${name}" has an invalid "strength"`);
+    if (duration !== undefined && (typeof duration !== "number" || duration < 0)) throw new Error(`"${name}" has an invalid "duration"`);
+    if (max !== undefined && (typeof max !== "number" || max < 0)) throw new Error(`"${name}" has an invalid "max"`);
+    if (per !== undefined && (typeof per !== "number" || per <= 0)) throw new Error(`"${name}" has an invalid "per"`);
+    return weight as FeatureWeight;
+}
+
+/**
+ * Parses a scoring model like {"caps": {"strength": 20}, "exclamation": {"strength": 3, "max": 5}}
+ */
+export function parseScoringModel(json: string | undefined): ScoringModel {
+    if (!json?.trim()) return {};
+    const parsed = JSON.parse(json);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) throw new Error("The scoring model must be a JSON object");
+
+    for (const [name, weight] of Object.entries<unknown>(parsed)) {
+        if (!featureNames.includes(name)) throw new Error(`Unknown feature "${name}" (expected any of: ${featureNames.join(", ")})`);
+        if (name !== "emoji") {
+            parseWeight(weight, name);
+            continue;
+        }
+
+        if (typeof weight !== "object" || weight === null || Array.isArray(weight)) throw new Error("\"emoji\" must be an object of emoji to weights");
+        for (const [emoji, emojiWeight] of Object.entries<unknown>(weight as Record<string, unknown>)) parseWeight(emojiWeight, emoji);
+    }
+
+    return parsed;
+}
+
+export function validateScoringModel(json: string): true | string {
+    try {
+        parseScoringModel(json);
+        return true;
+    } catch (error) {
+        return (error as Error).message;
+    }
+}
+
+function countEmoji(content: string, emoji: string): number {
+    // Names like fire or :fire: are custom emoji, which are sent as <:name:id> or <a:name:id> for animated ones
+    const name = emoji.match(/^:?(\w+):?$/)?.[1];
+    if (name) return content.match(new RegExp(`<a?:${name}:\\d+>`, "g"))?.length ?? 0;
+    return content.split(emoji).length - 1;
+}
+
+function isShouting(content: string): boolean {
+    // Mentions, channels and custom emoji contain IDs and names that shouldn't count
+    const letters = content.replace(/<[^>]+>/g, "").replace(/[^\p{L}]/gu, "");
+    if (letters.length < 5) return false;
+    return [...letters].filter(letter => letter !== letter.toLowerCase()).length / letters.length >= 0.7;
+}
+
+/**
+ * Scores a message by its features, returning how much intensity and duration they add and what each one added
+ */
+export function scoreMessage(model: ScoringModel, features: MessageFeatures): ScoreResult {
+    const result: ScoreResult = { strength: 0, duration: 0, breakdown: [] };
+
+    const add = (feature: string, weight: FeatureWeight | undefined, count: number) => {
+        if (!weight || count <= 0) return;
+        if (weight.max !== undefined) count = Math.min(count, weight.max);
+        if (count === 0) return;
+
+        const contribution = { feature, count, strength: (weight.strength ?? 0) * count, duration: (weight.duration ?? 0) * count };
+        result.strength += contribution.strength;
+        result.duration += contribution.duration;
+        result.breakdown.push(contribution);
+    };
+
+    const { content } = features;
+    add("caps", model.caps, isShouting(content) ? 1 : 0);
+    add("exclamation", model.exclamation, content.split("!").length - 1);
+    for (const [emoji, weight] of Object.entries(model.emoji ?? {}))
+        add(`emoji ${emoji}`, weight, countEmoji(content, emoji));
+    add("repetition", model.repetition, features.repeatedMatches);
+    add("length", model.length, Math.floor(content.length / (model.length?.per ?? defaultLengthStep)));
+    add("reply", model.reply, features.isReply ? 1 : 0);
+    add("ping", model.ping, features.isPing ? 1 : 0);
+
+    return result;
+}
+
+export function formatBreakdown(breakdown: ScoreContribution[]): string {
+    if (breakdown.length === 0) return "None";
+    return breakdown.map(({ feature, count, strength, duration }) =>
+        `${feature}${count > 1 ? ` x${count}` : ""} (+${Math.round(strength * 10) / 10}%, +${(duration / 1000).toFixed(2)}s)`
+    ).join(", ");
+}
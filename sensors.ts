@@ -0,0 +1,150 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { ButtplugClientDevice, SensorType } from "buttplug";
+
+import { findDevice, getDeviceKey } from "./devices";
+
+export type SensorKind = "battery" | "rssi" | "button" | "pressure";
+export const sensorKinds: SensorKind[] = ["battery", "rssi", "button", "pressure"];
+
+export type SensorAction = "message" | "pause" | "emergencyStop";
+const sensorActions: SensorAction[] = ["message", "pause", "emergencyStop"];
+
+export interface DeviceSensor {
+    kind: SensorKind;
+    /** Index of the sensor on the device, as used by the buttplug messages */
+    index: number;
+    sensorType: SensorType;
+    /** Lowest and highest raw value the sensor reports */
+    range: [number, number];
+}
+
+export interface SensorRule {
+    sensor: SensorKind;
+    /** Device nickname or ID (as shown in `devices`), all devices if not set */
+    device?: string | number;
+    /** Fires when the reading (0 - 100 of the sensor's range) goes above this, buttons default to any press */
+    above?: number;
+    /** Fires when the reading (0 - 100 of the sensor's range) goes below this */
+    below?: number;
+    action: SensorAction;
+    /** Channel ID the message is sent to */
+    channel?: string;
+    /** Message to send, can contain {device}, {sensor} and {value} */
+    message?: string;
+    /** Minutes to pause for, until resumed if not set */
+    minutes?: number;
+    /** Seconds before the rule can fire again (Default: 5) */
+    cooldown?: number;
+}
+
+const defaultCooldown = 5;
+
+// Whether each rule matched the last reading of a device, so rules only fire when the reading starts matching
+const matching = new Map<string, boolean>();
+const lastFired = new Map<string, number>();
+
+function kindFromSensorType(sensorType: SensorType): SensorKind | undefined {
+    switch (sensorType) {
+        case SensorType.Battery:
+            return "battery";
+        case SensorType.RSSI:
+            return "rssi";
+        case SensorType.Button:
+            return "button";
+        case SensorType.Pressure:
+            return "pressure";
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Returns the sensors of a device that can be read
+ */
+export function getSensors(device: ButtplugClientDevice): DeviceSensor[] {
+    return (device.messageAttributes.SensorReadCmd ?? []).flatMap(attribute => {
+        const kind = kindFromSensorType(attribute.SensorType);
+        const [min = 0, max = 1] = attribute.StepRange ?? [];
+        return kind ? [{ kind, index: attribute.Index, sensorType: attribute.SensorType, range: [min, max] as [number, number] }] : [];
+    });
+}
+
+/**
+ * Reads a sensor and returns its value as 0 - 100 of its range
+ */
+export async function readSensor(device: ButtplugClientDevice, sensor: DeviceSensor): Promise<number> {
+    const [value] = await device.sensorRead(sensor.index, sensor.sensorType);
+    const [min, max] = sensor.range;
+    return max > min ? Math.min(Math.max((value - min) / (max - min) * 100, 0), 100) : 0;
+}
+
+export function parseSensorRules(json: string | undefined): SensorRule[] {
+    if (!json?.trim()) return [];
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) throw new Error("Sensor rules must be a JSON array");
+
+    return parsed.map((rule, i) => {
+        if (typeof rule !== "object" || rule === null) throw new Error(`Sensor rule ${i + 1} is not an object`);
+        if (!sensorKinds.includes(rule.sensor)) throw new Error(`Sensor rule ${i + 1} has an invalid "sensor" (expected any of: ${sensorKinds.join(", ")})`);
+        if (!sensorActions.includes(rule.action)) throw new Error(`Sensor rule ${i + 1} has an invalid "action" (expected any of: ${sensorActions.join(", ")})`);
+        if (rule.device !== undefined && typeof rule.device !== "string" && typeof rule.device !== "number") throw new Error(`Sensor rule ${i + 1} has an invalid "device"`);
+
+        for (const field of ["above", "below", "minutes", "cooldown"]) {
+            if (rule[field] !== undefined && (typeof rule[field] !== "number" || rule[field] < 0)) throw new Error(`Sensor rule ${i + 1} has an invalid "${field}"`);
+        }
+        if (rule.above === undefined && rule.below === undefined && rule.sensor !== "button")
+            throw new Error(`Sensor rule ${i + 1} needs "above" or "below" to know when to fire`);
+
+        if (rule.action === "message") {
+            if (typeof rule.channel !== "string" || !/^\d+$/.test(rule.channel)) throw new Error(`Sensor rule ${i + 1} needs the "channel" ID to send the message to`);
+            if (typeof rule.message !== "string" || !rule.message.trim()) throw new Error(`Sensor rule ${i + 1} needs a "message" to send`);
+        }
+
+        return rule as SensorRule;
+    });
+}
+
+export function validateSensorRules(json: string): true | string {
+    try {
+        parseSensorRules(json);
+        return true;
+    } catch (error) {
+        return (error as Error).message;
+    }
+}
+
+function matches(rule: SensorRule, value: number): boolean {
+    if (rule.above === undefined && rule.below === undefined) return value > 0;
+    return (rule.above === undefined || value > rule.above) && (rule.below === undefined || value < rule.below);
+}
+
+/**
+ * Checks a reading against the rules and returns the rules that fire, which are the ones that didn't match
+ * the previous reading of the sensor and aren't cooling down
+ */
+export function checkSensorReading(rules: SensorRule[], device: ButtplugClientDevice, sensor: DeviceSensor, value: number, now = Date.now()): SensorRule[] {
+    return rules.filter((rule, i) => {
+        if (rule.sensor !== sensor.kind) return false;
+        if (rule.device !== undefined && findDevice([device], rule.device) !== device) return false;
+
+        const key = `${i}:${getDeviceKey(device)}:${sensor.index}`;
+        const wasMatching = matching.get(key) ?? false;
+        const isMatching = matches(rule, value);
+        matching.set(key, isMatching);
+        if (!isMatching || wasMatching) return false;
+
+        if (now - (lastFired.get(key) ?? 0) < (rule.cooldown ?? defaultCooldown) * 1000) return false;
+        lastFired.set(key, now);
+        return true;
+    });
+}
+
+export function resetSensorState() {
+    matching.clear();
+    lastFired.clear();
+}
@@ -0,0 +1,52 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export interface ServerProfile {
+    /** Shown in front of the names of its devices, e.g. partner/Lush */
+    name: string;
+    /** Websocket URL of the intiface server, e.g. ws://192.168.1.20:12345 */
+    url: string;
+    /** Connected to together with the main server by /connect and on startup */
+    autoConnect?: boolean;
+}
+
+/** Name of the server in the websocket URL setting (or the simulation) */
+export const MAIN_SERVER = "main";
+
+export function parseServerProfiles(json: string | undefined): ServerProfile[] {
+    if (!json?.trim()) return [];
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) throw new Error("Connection profiles must be a JSON array");
+
+    const names = new Set<string>([MAIN_SERVER]);
+    return parsed.map((profile, i) => {
+        if (typeof profile !== "object" || profile === null) throw new Error(`Connection profile ${i + 1} is not an object`);
+        if (typeof profile.name !== "string" || !/^[\w-]+$/.test(profile.name))
+            throw new Error(`Connection profile ${i + 1} needs a "name" made of letters, numbers, - and _`);
+        if (names.has(profile.name.toLowerCase())) throw new Error(`There is more than one connection profile named "${profile.name}" (or it is called ${MAIN_SERVER})`);
+        if (typeof profile.url !== "string" || !/^wss?:\/\/\S+$/.test(profile.url)) throw new Error(`Connection profile "${profile.name}" needs a "url" like ws://192.168.1.20:12345`);
+        if (profile.autoConnect !== undefined && typeof profile.autoConnect !== "boolean") throw new Error(`Connection profile "${profile.name}" has an invalid "autoConnect"`);
+
+        names.add(profile.name.toLowerCase());
+        return profile as ServerProfile;
+    });
+}
+
+export function validateServerProfiles(json: string): true | string {
+    try {
+        parseServerProfiles(json);
+        return true;
+    } catch (error) {
+        return (error as Error).message;
+    }
+}
+
+/**
+ * Finds a connection profile ignoring case
+ */
+export function findServerProfile(profiles: ServerProfile[], name: string): ServerProfile | undefined {
+    return profiles.find(profile => profile.name.toLowerCase() === name.trim().toLowerCase());
+}
@@ -0,0 +1,260 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import {
+    ActuatorType,
+    ButtplugBrowserWebsocketClientConnector,
+    ButtplugMessage,
+    DeviceInfo,
+    DeviceList,
+    Error as ErrorMessage,
+    ErrorClass,
+    GenericDeviceMessageAttributes,
+    LinearCmd,
+    MESSAGE_SPEC_VERSION,
+    MessageAttributes,
+    Ok,
+    Ping,
+    RequestDeviceList,
+    RequestServerInfo,
+    RotateCmd,
+    ScalarCmd,
+    SensorDeviceMessageAttributes,
+    SensorReadCmd,
+    SensorReading,
+    SensorType,
+    ServerInfo,
+    StartScanning,
+    StopAllDevices,
+    StopDeviceCmd,
+    StopScanning
+} from "buttplug";
+
+import { ActuatorKind, actuatorKinds } from "./actuators";
+
+export interface SimulatedDevice {
+    name: string;
+    /** One entry per actuator, e.g. ["vibrate", "vibrate"] for a device with two vibrators */
+    actuators: ActuatorKind[];
+    /** Battery level (0 - 100), the device has no battery if left out */
+    battery?: number;
+}
+
+export interface TimelineEntry {
+    time: number;
+    device: string;
+    /** e.g. "vibrate 1" for the first vibrator of the device */
+    actuator: string;
+    /** Intensity, speed or position from 0 to 1 */
+    value: number;
+}
+
+export const defaultSimulatedDevices: SimulatedDevice[] = [
+    { name: "Simulated Vibrator", actuators: ["vibrate", "vibrate"], battery: 80 },
+    { name: "Simulated Stroker", actuators: ["linear", "rotate"] },
+];
+
+const maxTimelineLength = 2000;
+// Block characters from lowest to highest, used to draw the timeline
+const timelineBlocks = ["\u2581", "\u2582", "\u2583", "\u2584", "\u2585", "\u2586", "\u2587", "\u2588"];
+
+const scalarTypes: Partial<Record<ActuatorKind, ActuatorType>> = {
+    vibrate: ActuatorType.Vibrate,
+    oscillate: ActuatorType.Oscillate,
+    scalar: ActuatorType.Constrict,
+};
+
+let timeline: TimelineEntry[] = [];
+
+export function parseSimulatedDevices(json: string | undefined): SimulatedDevice[] {
+    if (!json?.trim()) return defaultSimulatedDevices;
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) throw new Error("Simulated devices must be a JSON array");
+
+    for (const device of parsed) {
+        if (typeof device?.name !== "string" || !device.name.trim()) throw new Error("Every simulated device needs a name");
+        if (!Array.isArray(device.actuators) || device.actuators.length === 0)
+            throw new Error(`Simulated device "${device.name}" needs at least one actuator`);
+
+        const invalid = device.actuators.filter((kind: unknown) => !actuatorKinds.includes(kind as ActuatorKind));
+        if (invalid.length > 0) throw new Error(`Simulated device "${device.name}" has unknown actuators: ${invalid.join(", ")}`);
+        if (device.battery !== undefined && (typeof device.battery !== "number" || device.battery < 0 || device.battery > 100))
+            throw new Error(`Simulated device "${device.name}" has a battery level outside of 0 - 100`);
+    }
+
+    return parsed;
+}
+
+export function validateSimulatedDevices(json: string): true | string {
+    try {
+        parseSimulatedDevices(json);
+        return true;
+    } catch (error) {
+        return (error as Error).message;
+    }
+}
+
+function addToTimeline(entry: TimelineEntry) {
+    timeline.push(entry);
+    if (timeline.length > maxTimelineLength) timeline.splice(0, timeline.length - maxTimelineLength);
+}
+
+function buildDeviceInfo(device: SimulatedDevice, index: number): DeviceInfo {
+    const attribute = (kind: ActuatorKind, actuatorType: ActuatorType) => new GenericDeviceMessageAttributes({ FeatureDescriptor: kind, ActuatorType: actuatorType, StepCount: 20 });
+
+    const scalars = device.actuators.filter(kind => scalarTypes[kind]).map(kind => attribute(kind, scalarTypes[kind]!));
+    const rotators = device.actuators.filter(kind => kind === "rotate").map(kind => attribute(kind, ActuatorType.Rotate));
+    const strokers = device.actuators.filter(kind => kind === "linear").map(kind => attribute(kind, ActuatorType.Position));
+    // The constructor of the sensor attributes is typed wrong, so the sensor fields are assigned afterwards
+    const sensors = device.battery !== undefined ? [Object.assign(new SensorDeviceMessageAttributes({ FeatureDescriptor: "Battery" }), { SensorType: SensorType.Battery, StepRange: [0, 100] })] : [];
+
+    return new DeviceInfo({
+        DeviceIndex: index,
+        DeviceName: device.name,
+        DeviceMessages: new MessageAttributes({
+            ScalarCmd: scalars.length ? scalars : undefined,
+            RotateCmd: rotators.length ? rotators : undefined,
+            LinearCmd: strokers.length ? strokers : undefined,
+            SensorReadCmd: sensors.length ? sensors : undefined,
+            StopDeviceCmd: {},
+        }),
+    });
+}
+
+/**
+ * Acts like an intiface server with virtual devices and records every command they get.
+ * It extends the websocket connector only to reuse its event emitter, nothing of the websocket is used
+ */
+export class SimulatedConnector extends ButtplugBrowserWebsocketClientConnector {
+    private connected = false;
+
+    constructor(private readonly devices: SimulatedDevice[]) {
+        super("simulation");
+    }
+
+    get Connected() {
+        return this.connected;
+    }
+
+    connect = async () => {
+        this.connected = true;
+    };
+
+    disconnect = async () => {
+        if (!this.connected) return;
+        this.connected = false;
+        this.emit("disconnect");
+    };
+
+    send = (msg: ButtplugMessage) => {
+        if (!this.connected) throw new Error("Simulation not connected");
+
+        const response = this.respond(msg);
+        response.Id = msg.Id;
+        // Answer asynchronously like a real server would
+        setTimeout(() => this.emit("message", [response]), 0);
+    };
+
+    private respond(msg: ButtplugMessage): ButtplugMessage {
+        if (msg instanceof RequestServerInfo) return new ServerInfo(MESSAGE_SPEC_VERSION, 0, "Venplug simulation");
+        if (msg instanceof RequestDeviceList) return new DeviceList(this.devices.map(buildDeviceInfo));
+        if (msg instanceof StartScanning || msg instanceof StopScanning || msg instanceof Ping) return new Ok();
+
+        if (msg instanceof StopAllDevices) {
+            this.devices.forEach((_, index) => this.recordStop(index));
+            return new Ok();
+        }
+
+        if (msg instanceof StopDeviceCmd || msg instanceof ScalarCmd || msg instanceof RotateCmd || msg instanceof LinearCmd || msg instanceof SensorReadCmd) {
+            const device = this.devices[msg.DeviceIndex];
+            if (!device) return new ErrorMessage(`No simulated device with index ${msg.DeviceIndex}`, ErrorClass.ERROR_DEVICE);
+
+            if (msg instanceof SensorReadCmd) {
+                if (msg.SensorType !== SensorType.Battery || device.battery === undefined)
+                    return new ErrorMessage(`${device.name} has no ${msg.SensorType} sensor`, ErrorClass.ERROR_DEVICE);
+                return new SensorReading(msg.DeviceIndex, msg.SensorIndex, msg.SensorType, [device.battery]);
+            }
+
+            if (msg instanceof StopDeviceCmd) this.recordStop(msg.DeviceIndex);
+            if (msg instanceof ScalarCmd) msg.Scalars.forEach(scalar => this.record(msg.DeviceIndex, this.getScalarKind(scalar.ActuatorType), scalar.Index, scalar.Scalar));
+            if (msg instanceof RotateCmd) msg.Rotations.forEach(rotation => this.record(msg.DeviceIndex, "rotate", rotation.Index, rotation.Speed));
+            if (msg instanceof LinearCmd) msg.Vectors.forEach(vector => this.record(msg.DeviceIndex, "linear", vector.Index, vector.Position));
+            return new Ok();
+        }
+
+        return new ErrorMessage(`The simulation doesn't support ${msg.constructor.name}`, ErrorClass.ERROR_MSG);
+    }
+
+    private getScalarKind(actuatorType: ActuatorType): ActuatorKind {
+        return (Object.keys(scalarTypes) as ActuatorKind[]).find(kind => scalarTypes[kind] === actuatorType) ?? "scalar";
+    }
+
+    /**
+     * Records a command for the actuator with the feature index `index` among the device's actuators of the same message type
+     */
+    private record(deviceIndex: number, kind: ActuatorKind, index: number, value: number) {
+        const device = this.devices[deviceIndex];
+        const isScalar = (other: ActuatorKind) => !!scalarTypes[other];
+        const sameMessage = device.actuators.filter(other => kind === "rotate" || kind === "linear" ? other === kind : isScalar(other));
+        // Number the motor among the actuators of the same kind, like the /devices listing does
+        const motor = sameMessage.slice(0, index + 1).filter(other => other === kind).length;
+
+        addToTimeline({ time: Date.now(), device: `${device.name}#${deviceIndex}`, actuator: `${kind} ${motor}`, value });
+    }
+
+    private recordStop(deviceIndex: number) {
+        const device = this.devices[deviceIndex];
+        const counts: Partial<Record<ActuatorKind, number>> = {};
+        for (const kind of device.actuators) {
+            counts[kind] = (counts[kind] ?? 0) + 1;
+            addToTimeline({ time: Date.now(), device: `${device.name}#${deviceIndex}`, actuator: `${kind} ${counts[kind]}`, value: 0 });
+        }
+    }
+}
+
+export function getTimeline(): TimelineEntry[] {
+    return timeline;
+}
+
+export function clearTimeline() {
+    timeline = [];
+}
+
+/**
+ * Draws the intensity of every actuator over the last `windowMs` as one line of blocks each,
+ * a block shows the highest intensity within its slice so short pulses stay visible
+ */
+export function formatTimeline(windowMs: number, columns = 40): string {
+    const end = Date.now();
+    const start = end - windowMs;
+    const sliceLength = windowMs / columns;
+
+    const actuators = new Map<string, TimelineEntry[]>();
+    for (const entry of timeline) {
+        const key = `${entry.device} ${entry.actuator}`;
+        actuators.set(key, [...(actuators.get(key) ?? []), entry]);
+    }
+
+    const lines: string[] = [];
+    for (const [key, entries] of actuators) {
+        let value = [...entries].reverse().find(entry => entry.time < start)?.value ?? 0;
+        let line = "";
+        for (let column = 0; column < columns; column++) {
+            const sliceEnd = start + sliceLength * (column + 1);
+            let highest = value;
+            for (const entry of entries) {
+                if (entry.time < sliceEnd - sliceLength || entry.time >= sliceEnd) continue;
+                highest = Math.max(highest, entry.value);
+                value = entry.value;
+            }
+            line += highest > 0 ? timelineBlocks[Math.min(Math.floor(highest * timelineBlocks.length), timelineBlocks.length - 1)] : " ";
+        }
+
+        if (line.trim()) lines.push(`**${key}** \`${line}\``);
+    }
+
+    return lines.length ? lines.join("\n") : "Nothing was played in that time";
+}
@@ -0,0 +1,115 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2023 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { ActuatorCommand } from "./queue";
+
+export interface Timer {
+    id: number;
+    command: ActuatorCommand;
+    /** Timestamp it fires at next */
+    at: number;
+    /** Milliseconds between repeats, only fires once if not set */
+    every?: number;
+    /** ID of the user who scheduled it */
+    userId: string;
+}
+
+// Repeating any faster would just be a very slow pattern
+export const minRepeatInterval = 10000;
+// setTimeout can't wait much longer than 24 days, a week is plenty
+const maxDelay = 7 * 24 * 60 * 60000;
+
+const units: Record<string, number> = { s: 1000, m: 60000, h: 60 * 60000, d: 24 * 60 * 60000 };
+const delayPattern = /^(?:\d+(?:\.\d+)?[smhd])+$/;
+const clockPattern = /^(\d{1,2}):(\d{2})$/;
+
+const timers = new Map<number, { timer: Timer; timeout: NodeJS.Timeout; }>();
+let nextId = 1;
+
+/**
+ * Parses a delay like 30s, 10m or 1h30m into milliseconds
+ */
+export function parseDelay(text: string): number {
+    const value = text.trim().toLowerCase();
+    if (!delayPattern.test(value)) throw new Error(`Invalid delay "${text}", expected e.g. 30s, 10m or 1h30m`);
+
+    const delay = [...value.matchAll(/(\d+(?:\.\d+)?)([smhd])/g)].reduce((total, [, amount, unit]) => total + Number(amount) * units[unit], 0);
+    if (delay <= 0) throw new Error("The delay has to be more than 0");
+    if (delay > maxDelay) throw new Error("The delay can't be longer than 7 days");
+    return delay;
+}
+
+/**
+ * Parses a delay (e.g. 10m) or a clock time (e.g. 22:30, the next time it is that late) into the timestamp it refers to
+ */
+export function parseWhen(text: string, now = Date.now()): number {
+    const match = text.trim().match(clockPattern);
+    if (!match) return now + parseDelay(text);
+
+    const [hours, minutes] = match.slice(1).map(Number);
+    if (hours > 23 || minutes > 59) throw new Error(`Invalid time "${text}", expected e.g. 22:30`);
+
+    const date = new Date(now);
+    date.setHours(hours, minutes, 0, 0);
+    if (date.getTime() <= now) date.setDate(date.getDate() + 1);
+    return date.getTime();
+}
+
+export function parseRepeatInterval(text: string): number {
+    const every = parseDelay(text);
+    if (every < minRepeatInterval) throw new Error(`Repeating schedules can't repeat more often than every ${minRepeatInterval / 1000} seconds`);
+    return every;
+}
+
+function arm(timer: Timer, fire: (timer: Timer) => void) {
+    const timeout = setTimeout(() => {
+        if (timer.every) {
+            // Skips the repeats that were missed while the computer was asleep
+            while (timer.at <= Date.now()) timer.at += timer.every;
+            arm(timer, fire);
+        } else {
+            timers.delete(timer.id);
+        }
+
+        fire(timer);
+    }, Math.max(timer.at - Date.now(), 0));
+
+    timers.set(timer.id, { timer, timeout });
+}
+
+/**
+ * Schedules a command, fire is called every time it is due
+ */
+export function addTimer(data: Omit<Timer, "id">, fire: (timer: Timer) => void): Timer {
+    const timer = { ...data, id: nextId++ };
+    arm(timer, fire);
+    return timer;
+}
+
+/**
+ * Returns the scheduled commands, the next one first
+ */
+export function getTimers(): Timer[] {
+    return [...timers.values()].map(({ timer }) => timer).sort((a, b) => a.at - b.at);
+}
+
+export function cancelTimer(id: number): Timer | undefined {
+    const entry = timers.get(id);
+    if (!entry) return undefined;
+
+    clearTimeout(entry.timeout);
+    timers.delete(id);
+    return entry.timer;
+}
+
+/**
+ * Cancels every scheduled command, or only the ones of a user. Returns how many were cancelled
+ */
+export function cancelTimers(userId?: string): number {
+    const cancelled = getTimers().filter(timer => !userId || timer.userId === userId);
+    for (const timer of cancelled) cancelTimer(timer.id);
+    return cancelled.length;
+}